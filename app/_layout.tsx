@@ -1,5 +1,33 @@
-import { Stack } from "expo-router";
+import { useEffect } from "react";
+import { router, Stack } from "expo-router";
+import * as Notifications from "expo-notifications";
+import { ThemeProvider } from "@/components/ThemeProvider";
+import { startPreferenceSync } from "@/lib/settings";
+import { isWordOfTheDayNotification, syncWordOfTheDayReminders } from "@/lib/wordOfTheDay";
 
 export default function RootLayout() {
-   return <Stack screenOptions={{ headerShown: false }} />
+   useEffect(() => startPreferenceSync(), []);
+
+   useEffect(() => {
+      // Tops the week of scheduled reminders back up on every launch.
+      syncWordOfTheDayReminders().catch((error) => console.error("Failed to schedule reminders", error));
+
+      const openWord = (response: Notifications.NotificationResponse | null) => {
+         const data = response?.notification.request.content.data;
+         if (isWordOfTheDayNotification(data)) {
+            router.push({ pathname: "/word/[term]", params: { term: data.word, lang: data.language } });
+            Notifications.clearLastNotificationResponseAsync();
+         }
+      };
+      // A tap that launched the app arrives before the listener exists.
+      Notifications.getLastNotificationResponseAsync().then(openWord);
+      const subscription = Notifications.addNotificationResponseReceivedListener(openWord);
+      return () => subscription.remove();
+   }, []);
+
+   return (
+      <ThemeProvider>
+         <Stack screenOptions={{ headerShown: false }} />
+      </ThemeProvider>
+   );
 }
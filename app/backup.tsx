@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  applyImport,
+  BACKUP_FORMATS,
+  BackupError,
+  BackupFormat,
+  CollectionPlan,
+  ConflictStrategy,
+  detectBackupFormat,
+  exportBackup,
+  hasChanges,
+  ImportPlan,
+  parseBackup,
+  ParsedBackup,
+  planImport,
+} from '@/lib/backup';
+
+const STRATEGIES: { value: ConflictStrategy; label: string; description: string }[] = [
+  { value: 'newest', label: 'Keep the newest', description: 'Whichever copy changed last wins; counts and tags are combined.' },
+  { value: 'keep-existing', label: 'Keep mine', description: 'Only add words this device does not have yet.' },
+  { value: 'overwrite', label: 'Use the file', description: 'Imported copies replace the ones on this device.' },
+];
+
+interface PendingImport {
+  fileName: string;
+  format: BackupFormat;
+  parsed: ParsedBackup;
+}
+
+const describeFailure = (error: unknown) =>
+  error instanceof BackupError ? error.message : 'Something went wrong while reading or writing the file.';
+
+export default function BackupScreen() {
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>('newest');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const cardColors = { backgroundColor: colors.card, shadowColor: colors.cardShadow };
+
+  // The preview is a dry run: recomputed whenever the file or strategy changes, written only on confirm.
+  useEffect(() => {
+    if (!pending) return;
+    let cancelled = false;
+    const options = { partialFavorites: pending.parsed.partialFavorites };
+    planImport(pending.parsed.backup, strategy, options).then((next) => !cancelled && setPlan(next));
+    return () => {
+      cancelled = true;
+    };
+  }, [pending, strategy]);
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    setFailure(null);
+    try {
+      await task();
+    } catch (error) {
+      setFailure(describeFailure(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportAs = (format: BackupFormat) =>
+    run(async () => {
+      const { content, fileName } = await exportBackup(format);
+      const uri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(uri, content);
+      if (!(await Sharing.isAvailableAsync())) {
+        setMessage(`Saved ${fileName}, but sharing is not available on this device.`);
+        return;
+      }
+      await Sharing.shareAsync(uri, { mimeType: BACKUP_FORMATS[format].mimeType, dialogTitle: 'Export dictionary data' });
+    });
+
+  const chooseFile = () =>
+    run(async () => {
+      const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+      if (result.canceled) return;
+      const asset = result.assets[0];
+      const content = await FileSystem.readAsStringAsync(asset.uri);
+      const format = detectBackupFormat(asset.name, content);
+      setPlan(null);
+      setPending({ fileName: asset.name, format, parsed: parseBackup(content, format) });
+    });
+
+  const confirmImport = () =>
+    run(async () => {
+      if (!plan) return;
+      await applyImport(plan);
+      setPending(null);
+      setPlan(null);
+      setMessage('Import complete.');
+    });
+
+  const renderPlanRow = (label: string, collection: CollectionPlan<unknown>) => (
+    <View style={styles.planRow}>
+      <Text style={[styles.rowLabel, textColor, { fontSize: font(15) }]}>{label}</Text>
+      <Text style={[styles.planText, secondaryColor, { fontSize: font(13) }]}>
+        {collection.added} new · {collection.updated} updated · {collection.unchanged} unchanged
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(24) }]}>Backup & restore</Text>
+        {busy && <ActivityIndicator color={colors.accent} />}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {message && <Text style={[styles.message, secondaryColor]}>{message}</Text>}
+        {failure && <Text style={[styles.failure, { color: colors.error }]}>{failure}</Text>}
+
+        {/* Export */}
+        <Text style={[styles.sectionTitle, secondaryColor, { fontSize: font(13) }]}>Export</Text>
+        <View style={[styles.card, cardColors]}>
+          {(Object.keys(BACKUP_FORMATS) as BackupFormat[]).map((format) => (
+            <TouchableOpacity key={format} style={styles.option} onPress={() => exportAs(format)} disabled={busy}>
+              <Ionicons name="share-outline" size={18} color={colors.accent} />
+              <Text style={[styles.optionText, textColor, { fontSize: font(15) }]}>
+                {BACKUP_FORMATS[format].label} (.{BACKUP_FORMATS[format].extension})
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Import */}
+        <Text style={[styles.sectionTitle, secondaryColor, { fontSize: font(13) }]}>Import</Text>
+        <View style={[styles.card, cardColors]}>
+          {!pending ? (
+            <TouchableOpacity style={styles.option} onPress={chooseFile} disabled={busy}>
+              <Ionicons name="folder-open-outline" size={18} color={colors.accent} />
+              <Text style={[styles.optionText, textColor, { fontSize: font(15) }]}>
+                Choose a JSON, CSV or Anki file...
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              <Text style={[styles.fileName, textColor, { fontSize: font(16) }]}>{pending.fileName}</Text>
+              <Text style={[styles.planText, secondaryColor, { fontSize: font(13) }]}>
+                {BACKUP_FORMATS[pending.format].label} · {pending.parsed.backup.history.length} lookups ·{' '}
+                {pending.parsed.backup.favorites.length} saved words · {pending.parsed.backup.notes.length} notes
+                {pending.parsed.invalid > 0 && ` · ${pending.parsed.invalid} unreadable rows skipped`}
+              </Text>
+
+              <Text style={[styles.rowLabel, styles.strategyLabel, textColor, { fontSize: font(15) }]}>
+                When a word exists on both
+              </Text>
+              {STRATEGIES.map((option) => (
+                <TouchableOpacity key={option.value} style={styles.option} onPress={() => setStrategy(option.value)}>
+                  <Ionicons
+                    name={strategy === option.value ? 'radio-button-on' : 'radio-button-off'}
+                    size={18}
+                    color={strategy === option.value ? colors.accent : colors.mutedText}
+                  />
+                  <View style={styles.optionBody}>
+                    <Text style={[styles.optionText, textColor, { fontSize: font(15) }]}>{option.label}</Text>
+                    <Text style={[styles.optionDescription, secondaryColor, { fontSize: font(13) }]}>
+                      {option.description}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+
+              {pending.parsed.partialFavorites && (
+                <Text style={[styles.optionDescription, secondaryColor, { fontSize: font(13) }]}>
+                  This file only has definitions, so words already saved here keep their full entries.
+                </Text>
+              )}
+
+              {/* Preview */}
+              {plan && (
+                <View style={[styles.preview, { backgroundColor: colors.input }]}>
+                  {renderPlanRow('History', plan.history)}
+                  {renderPlanRow('Favorites', plan.favorites)}
+                  {renderPlanRow('Notes', plan.notes)}
+                </View>
+              )}
+
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => setPending(null)} disabled={busy}>
+                  <Text style={[styles.secondaryButtonText, { color: colors.accent }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.primaryButton,
+                    { backgroundColor: plan && hasChanges(plan) ? colors.accent : colors.disabled },
+                  ]}
+                  onPress={confirmImport}
+                  disabled={busy || !plan || !hasChanges(plan)}
+                >
+                  <Text style={[styles.primaryButtonText, { color: colors.onAccent }]}>
+                    {plan && !hasChanges(plan) ? 'Nothing to import' : 'Import'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 52,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: 'bold',
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  message: {
+    marginBottom: 8,
+  },
+  failure: {
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+  },
+  optionBody: {
+    flex: 1,
+  },
+  optionText: {
+    marginLeft: 8,
+  },
+  optionDescription: {
+    marginLeft: 8,
+    marginTop: 2,
+  },
+  fileName: {
+    fontWeight: '600',
+  },
+  rowLabel: {
+    fontWeight: '600',
+  },
+  strategyLabel: {
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  preview: {
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  planRow: {
+    paddingVertical: 4,
+  },
+  planText: {
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+    gap: 8,
+  },
+  primaryButton: {
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  primaryButtonText: {
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    fontWeight: '600',
+  },
+});
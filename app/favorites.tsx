@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, FlatList, ScrollView, StyleSheet } from 'react-native';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useTheme } from '@/hooks/useTheme';
+import { Favorite, partsOfSpeech, removeFavorite } from '@/lib/favorites';
+import { DEFAULT_LANGUAGE, isRtlLanguage } from '@/lib/language';
+
+type SortOrder = 'recent' | 'alphabetical';
+
+export default function FavoritesScreen() {
+  const favorites = useFavorites();
+  const [sortOrder, setSortOrder] = useState<SortOrder>('recent');
+  const [partOfSpeech, setPartOfSpeech] = useState<string | null>(null);
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const cardColors = { backgroundColor: colors.card, shadowColor: colors.cardShadow };
+
+  const allPartsOfSpeech = useMemo(
+    () => Array.from(new Set(favorites.flatMap(partsOfSpeech))).sort(),
+    [favorites],
+  );
+
+  const visibleFavorites = useMemo(() => {
+    const filtered = partOfSpeech
+      ? favorites.filter((favorite) => partsOfSpeech(favorite).includes(partOfSpeech))
+      : favorites;
+    return [...filtered].sort((a, b) =>
+      sortOrder === 'recent' ? b.savedAt - a.savedAt : a.word.localeCompare(b.word),
+    );
+  }, [favorites, partOfSpeech, sortOrder]);
+
+  const openFavorite = (favorite: Favorite) => {
+    router.navigate({ pathname: '/', params: { saved: favorite.word, lang: favorite.language } });
+  };
+
+  const renderFavorite = ({ item }: { item: Favorite }) => {
+    const firstDefinition = item.entries[0]?.meanings[0]?.definitions[0]?.definition;
+    return (
+      <TouchableOpacity style={[styles.card, cardColors]} onPress={() => openFavorite(item)}>
+        <View style={styles.itemHeader}>
+          <Text style={[styles.word, textColor, { fontSize: font(20) }]}>{item.word}</Text>
+          <TouchableOpacity onPress={() => removeFavorite(item.word, item.language)} hitSlop={8}>
+            <Ionicons name="star" size={20} color={colors.warning} />
+          </TouchableOpacity>
+        </View>
+        <Text style={[styles.partsOfSpeech, secondaryColor, { fontSize: font(13) }]}>
+          {partsOfSpeech(item).join(' · ')}
+          {item.language !== DEFAULT_LANGUAGE && ` · ${item.language}`}
+        </Text>
+        {firstDefinition && (
+          <Text
+            style={[
+              styles.definition,
+              secondaryColor,
+              { fontSize: font(14) },
+              isRtlLanguage(item.language) && styles.rtl,
+            ]}
+            numberOfLines={2}
+          >
+            {firstDefinition}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(24) }]}>Favorites</Text>
+        <TouchableOpacity style={styles.tagsButton} onPress={() => router.push('/tags')}>
+          <Ionicons name="pricetags-outline" size={20} color={colors.accent} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.sortButton}
+          onPress={() => setSortOrder(sortOrder === 'recent' ? 'alphabetical' : 'recent')}
+        >
+          <MaterialIcons name={sortOrder === 'recent' ? 'schedule' : 'sort-by-alpha'} size={18} color={colors.accent} />
+          <Text style={[styles.sortText, { color: colors.accent }]}>{sortOrder === 'recent' ? 'Recent' : 'A–Z'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Part of Speech Filter */}
+      {allPartsOfSpeech.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filters}>
+          {[null, ...allPartsOfSpeech].map((value) => (
+            <TouchableOpacity
+              key={value ?? 'all'}
+              style={[
+                styles.chip,
+                { backgroundColor: colors.chip },
+                partOfSpeech === value && { backgroundColor: colors.accent },
+              ]}
+              onPress={() => setPartOfSpeech(value)}
+            >
+              <Text style={[{ color: colors.chipText }, partOfSpeech === value && { color: colors.onAccent }]}>
+                {value ?? 'all'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <FlatList
+        data={visibleFavorites}
+        keyExtractor={(item) => `${item.language}:${item.word}`}
+        renderItem={renderFavorite}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, secondaryColor]}>
+            {favorites.length === 0 ? 'Tap the star on a word to save it here.' : 'No saved words match this filter.'}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 52,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: 'bold',
+  },
+  tagsButton: {
+    marginRight: 16,
+  },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sortText: {
+    marginLeft: 4,
+    fontWeight: '600',
+  },
+  filters: {
+    flexGrow: 0,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  chip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  word: {
+    fontWeight: 'bold',
+  },
+  partsOfSpeech: {
+    marginTop: 2,
+  },
+  definition: {
+    marginTop: 6,
+  },
+  rtl: {
+    writingDirection: 'rtl',
+    textAlign: 'right',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 48,
+  },
+});
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, SectionList, StyleSheet, Alert } from 'react-native';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useHistory } from '@/hooks/useHistory';
+import { useTheme } from '@/hooks/useTheme';
+import { DEFAULT_LANGUAGE } from '@/lib/language';
+import { clearHistory, groupHistoryByDay, HistoryEntry, removeHistoryEntry, searchHistory } from '@/lib/history';
+
+export default function HistoryScreen() {
+  const history = useHistory();
+  const [query, setQuery] = useState('');
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const cardColors = { backgroundColor: colors.card, shadowColor: colors.cardShadow };
+  const inputColors = { backgroundColor: colors.input, borderColor: colors.inputBorder, color: colors.text };
+
+  const sections = useMemo(() => groupHistoryByDay(searchHistory(history, query)), [history, query]);
+
+  const confirmClear = () => {
+    Alert.alert('Clear history', 'Remove every word from your lookup history?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => clearHistory() },
+    ]);
+  };
+
+  const renderEntry = ({ item }: { item: HistoryEntry }) => (
+    <TouchableOpacity
+      style={[styles.row, cardColors]}
+      onPress={() => router.navigate({ pathname: '/', params: { search: item.word, lang: item.language } })}
+    >
+      <MaterialIcons
+        name={item.status === 'success' ? 'check-circle-outline' : 'error-outline'}
+        size={18}
+        color={item.status === 'success' ? colors.success : colors.error}
+      />
+      <View style={styles.rowContent}>
+        <Text style={[styles.word, textColor, { fontSize: font(16) }]}>{item.word}</Text>
+        <Text style={[styles.meta, secondaryColor, { fontSize: font(12) }]}>
+          {new Date(item.lastLookedUpAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+          {' · '}
+          {item.count === 1 ? 'looked up once' : `looked up ${item.count} times`}
+          {item.language !== DEFAULT_LANGUAGE && ` · ${item.language}`}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => removeHistoryEntry(item)} hitSlop={8}>
+        <Ionicons name="trash-outline" size={18} color={colors.secondaryText} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(24) }]}>History</Text>
+        {history.length > 0 && (
+          <TouchableOpacity onPress={confirmClear}>
+            <Text style={[styles.clearText, { color: colors.error }]}>Clear all</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Search */}
+      <View style={styles.searchContainer}>
+        <MaterialIcons name="search" size={20} color={colors.placeholder} style={styles.searchIcon} />
+        <TextInput
+          style={[styles.input, inputColors]}
+          placeholder="Search history..."
+          placeholderTextColor={colors.placeholder}
+          value={query}
+          onChangeText={setQuery}
+          autoCapitalize="none"
+        />
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => `${item.language}:${item.word}`}
+        renderItem={renderEntry}
+        renderSectionHeader={({ section }) => (
+          <Text style={[styles.sectionTitle, secondaryColor, { fontSize: font(13) }]}>{section.title}</Text>
+        )}
+        contentContainerStyle={styles.list}
+        stickySectionHeadersEnabled={false}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, secondaryColor]}>
+            {history.length === 0 ? 'Words you look up will appear here.' : 'No lookups match your search.'}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 52,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: 'bold',
+  },
+  clearText: {
+    fontWeight: '600',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  searchIcon: {
+    position: 'absolute',
+    left: 28,
+    zIndex: 1,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingLeft: 40,
+    paddingRight: 12,
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  word: {
+    fontWeight: '600',
+  },
+  meta: {
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 48,
+  },
+});
@@ -1,138 +1,382 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, TextInput, TouchableOpacity, FlatList, ScrollView, StyleSheet, ActivityIndicator, Alert } from 'react-native';
-import { Audio } from 'expo-av';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  SectionList,
+  StyleSheet,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useColorScheme } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import AntDesign from '@expo/vector-icons/AntDesign';
-
-interface Phonetic {
-  text?: string;
-  audio?: string;
-}
-
-interface Definition {
-  definition: string;
-  example?: string;
-  synonyms?: string[];
-  antonyms?: string[];
-}
-
-interface Meaning {
-  partOfSpeech: string;
-  definitions: Definition[];
-}
-
-interface WordData {
-  word: string;
-  phonetic?: string;
-  phonetics: Phonetic[];
-  origin?: string;
-  meanings: Meaning[];
+import { router, useLocalSearchParams } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import {
+  Definition,
+  DictionaryError,
+  homographLabel,
+  isRetryable,
+  mergeEntries,
+  OutlineSection,
+  outlineEntries,
+  partsOfSpeech,
+  PREVIEW_DEFINITIONS,
+  relatedWords,
+} from '@/lib/dictionary';
+import { findFavorite, isFavorite, toggleFavorite } from '@/lib/favorites';
+import { isRtlLanguage, SUPPORTED_LANGUAGES } from '@/lib/language';
+import { shareWord } from '@/lib/links';
+import { updatePreferences } from '@/lib/preferences';
+import { prefixSuggestions, spellingSuggestions } from '@/lib/suggestions';
+import { canGoBack, canGoForward, currentWord, EMPTY_WORD_STACK, goBack, goForward, pushWord, WordStack } from '@/lib/wordStack';
+import { playPronunciation } from '@/lib/audio';
+import { DefinitionItem } from '@/components/DefinitionItem';
+import { EntryOutlineBar } from '@/components/EntryOutlineBar';
+import { MeaningSectionFooter, MeaningSectionHeader } from '@/components/MeaningSection';
+import { PhoneticList } from '@/components/PhoneticList';
+import { WordHeader } from '@/components/WordHeader';
+import { WordNotes } from '@/components/WordNotes';
+import { WordOfTheDayCard } from '@/components/WordOfTheDayCard';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useHistory } from '@/hooks/useHistory';
+import { usePreferences } from '@/hooks/usePreferences';
+import { usePronunciation } from '@/hooks/usePronunciation';
+import { useSpeech } from '@/hooks/useSpeech';
+import { useTheme } from '@/hooks/useTheme';
+import { useWordCandidates } from '@/hooks/useWordCandidates';
+import { shownLookup, useWordLookup } from '@/hooks/useWordLookup';
+import { useWordOfTheDay } from '@/hooks/useWordOfTheDay';
+
+const SUGGESTION_DEBOUNCE_MS = 200;
+const JUMP_RETRY_MS = 50;
+
+const toggleKey = (keys: ReadonlySet<string>, key: string) => {
+  const next = new Set(keys);
+  if (next.has(key)) next.delete(key);
+  else next.add(key);
+  return next;
+};
+
+const describeError = (error: DictionaryError, term: string) => {
+  switch (error.code) {
+    case 'not-found':
+      return `No entry found for “${term}”.`;
+    case 'network':
+      return 'You appear to be offline. Check your connection and try again.';
+    case 'timeout':
+      return 'The dictionary took too long to respond.';
+    case 'rate-limited':
+      return error.retryAfter
+        ? `Too many lookups. Try again in ${error.retryAfter} seconds.`
+        : 'Too many lookups. Wait a moment and try again.';
+    case 'server':
+      return `The dictionary service is having problems${error.status ? ` (HTTP ${error.status})` : ''}.`;
+    case 'parse':
+      return 'The dictionary sent a response we could not read.';
+    default:
+      return 'Something went wrong while looking up this word.';
+  }
+};
+
+interface SearchOptions {
+  pushToStack?: boolean;
+  language?: string;
 }
 
 export default function DictionaryApp() {
   const [searchTerm, setSearchTerm] = useState('');
-  const [wordData, setWordData] = useState<WordData | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState('');
-  const [searchHistory, setSearchHistory] = useState<string[]>([]);
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const [mergeMeanings, setMergeMeanings] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [wordStack, setWordStack] = useState<WordStack>(EMPTY_WORD_STACK);
+  const [showLanguages, setShowLanguages] = useState(false);
+  const [partOfSpeech, setPartOfSpeech] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<ReadonlySet<string>>(new Set());
+  const [expanded, setExpanded] = useState<ReadonlySet<string>>(new Set());
+  const listRef = useRef<SectionList<Definition, OutlineSection>>(null);
+  const pendingJump = useRef<number | null>(null);
+  const preferences = usePreferences();
+  const history = useHistory();
+  const favorites = useFavorites();
+  const { saved, search, term, lang } = useLocalSearchParams<{
+    saved?: string;
+    search?: string;
+    term?: string;
+    lang?: string;
+  }>();
+  const requestedTerm = search ?? term;
+  const lookup = useWordLookup();
+  const { search: searchLookup, show: showLookup } = lookup;
+  const pronunciation = usePronunciation();
+  const speech = useSpeech();
+  const candidates = useWordCandidates();
+  const wordOfTheDay = useWordOfTheDay();
+  const debouncedTerm = useDebouncedValue(searchTerm, SUGGESTION_DEBOUNCE_MS);
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const cardColors = { backgroundColor: colors.card, shadowColor: colors.cardShadow };
+  const inputColors = { backgroundColor: colors.input, borderColor: colors.inputBorder, color: colors.text };
+  const highlightColors = { backgroundColor: colors.highlight };
+  const highlightTextColor = { color: colors.highlightText };
+  const errorColor = { color: colors.error };
+
+  const shown = shownLookup(lookup.state);
+  const entries = shown?.entries ?? [];
+  const entryLanguage = shown?.language ?? preferences.language;
+  const loading = lookup.state.status === 'loading';
+  const failure = lookup.state.status === 'error' ? lookup.state : null;
+  const error = failure?.error ?? null;
+  const failedTerm = failure?.term ?? '';
+  // Retries and corrections stay in the language the failed lookup used, which may not be the default.
+  const failedLanguage = failure?.language ?? preferences.language;
+  const cachedCopy = failure?.cachedCopy ?? null;
+  const rtl = isRtlLanguage(entryLanguage);
+  const shownEntries = shown?.entries;
+  const hasRelatedWords = useMemo(() => {
+    const related = relatedWords(shownEntries ?? [], entryLanguage);
+    return related.synonyms.length > 0 || related.antonyms.length > 0;
+  }, [shownEntries, entryLanguage]);
+
+  const suggestions = useMemo(
+    () => (showSuggestions ? prefixSuggestions(debouncedTerm, candidates) : []),
+    [showSuggestions, debouncedTerm, candidates],
+  );
+  const didYouMean = useMemo(
+    () => (error?.code === 'not-found' ? spellingSuggestions(failedTerm, candidates) : []),
+    [error, failedTerm, candidates],
+  );
 
+  const recentSearches = history
+    .filter((entry) => entry.status === 'success')
+    .slice(0, preferences.recentSearchCount);
+
+  const searchWord = useCallback(
+    async (word: string, options: SearchOptions = {}) => {
+      const { pushToStack = true, language = preferences.language } = options;
+      if (!word.trim()) return;
+      setShowSuggestions(false);
+      const result = await searchLookup(word, language);
+      if (!result) return;
+      if (pushToStack) setWordStack((stack) => pushWord(stack, word));
+      const firstAudio = result.entries.flatMap((entry) => entry.phonetics).find((phonetic) => phonetic.audio)?.audio;
+      if (preferences.autoPlayPronunciation && firstAudio) playPronunciation(firstAudio);
+    },
+    [searchLookup, preferences.language, preferences.autoPlayPronunciation],
+  );
+
+  // searchWord changes with the preferences, so remember which link was opened rather than
+  // searching it again whenever the language or autoplay setting changes.
+  const openedLink = useRef<string | null>(null);
   useEffect(() => {
-    loadHistory();
-  }, []);
+    if (!requestedTerm) return;
+    const link = `${lang ?? ''}:${requestedTerm}`;
+    if (openedLink.current === link) return;
+    openedLink.current = link;
+    setSearchTerm(requestedTerm);
+    searchWord(requestedTerm, { language: lang });
+  }, [requestedTerm, lang, searchWord]);
 
-  const loadHistory = async () => {
-    const history = await AsyncStorage.getItem('searchHistory');
-    if (history) setSearchHistory(JSON.parse(history));
+  useEffect(() => {
+    if (!saved) return;
+    let cancelled = false;
+    findFavorite(saved, lang)
+      .then((favorite) => {
+        if (!favorite || cancelled) return;
+        setSearchTerm(favorite.word);
+        showLookup({ term: favorite.word, language: favorite.language, entries: favorite.entries, source: 'saved' });
+        setWordStack((stack) => pushWord(stack, favorite.word));
+      })
+      .catch((error) => console.error('Failed to open saved word', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [saved, lang, showLookup]);
+
+  const runSearch = (word: string, language: string) => {
+    setSearchTerm(word);
+    searchWord(word, { language });
   };
 
-  const saveHistory = async (history: string[]) => {
-    await AsyncStorage.setItem('searchHistory', JSON.stringify(history));
+  const navigateStack = (next: WordStack) => {
+    const word = currentWord(next);
+    if (!word) return;
+    setWordStack(next);
+    setSearchTerm(word);
+    searchWord(word, { pushToStack: false, language: entryLanguage });
   };
 
-  const searchWord = async (word: string) => {
-    if (!word.trim()) return;
-    setLoading(true);
-    setError('');
-    try {
-      const response = await fetch(`https://api.dictionaryapi.dev/api/v2/entries/en/${word.toLowerCase()}`);
-      if (!response.ok) throw new Error('Word not found');
-      const data = await response.json();
-      setWordData(data[0]);
-      const newHistory = [word, ...searchHistory.filter((item) => item !== word)].slice(0, 5);
-      setSearchHistory(newHistory);
-      saveHistory(newHistory);
-    } catch (err) {
-      setError('Word not found. Try another.');
-      setWordData(null);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const displayedEntries = useMemo(
+    () => (mergeMeanings ? mergeEntries(shownEntries ?? []) : shownEntries ?? []),
+    [mergeMeanings, shownEntries],
+  );
+  const entryPartsOfSpeech = useMemo(() => partsOfSpeech(displayedEntries), [displayedEntries]);
+  // A refreshed entry may no longer have the chosen part of speech; show everything rather than nothing.
+  const activePartOfSpeech = partOfSpeech && entryPartsOfSpeech.includes(partOfSpeech) ? partOfSpeech : null;
+  const sections = useMemo(
+    () => outlineEntries(displayedEntries, { partOfSpeech: activePartOfSpeech, collapsed, expanded }),
+    [displayedEntries, activePartOfSpeech, collapsed, expanded],
+  );
 
-  const playAudio = async (url: string) => {
-    const { sound } = await Audio.Sound.createAsync({ uri: url.startsWith('//') ? `https:${url}` : url });
-    await sound.playAsync();
+  // Filters and open sections belong to one word; a new lookup starts from the preview again,
+  // while a background refresh of the same word keeps them.
+  const shownTerm = shown?.term;
+  const shownLanguage = shown?.language;
+  useEffect(() => {
+    setPartOfSpeech(null);
+    setCollapsed(new Set());
+    setExpanded(new Set());
+  }, [shownTerm, shownLanguage, mergeMeanings]);
+
+  const jumpToSection = (sectionIndex: number) =>
+    listRef.current?.scrollToLocation({ sectionIndex, itemIndex: 0, viewOffset: 8 });
+
+  // Sections far below the viewport have not been measured yet: scroll near them, then aim again.
+  const retryJump = ({ index, averageItemLength }: { index: number; averageItemLength: number }) => {
+    listRef.current?.getScrollResponder()?.scrollTo({ y: index * averageItemLength, animated: false });
+    const sectionIndex = pendingJump.current;
+    pendingJump.current = null;
+    if (sectionIndex !== null) setTimeout(() => jumpToSection(sectionIndex), JUMP_RETRY_MS);
   };
 
-
-  return (
-    <ScrollView style={[styles.container, isDark && styles.darkContainer]}>
+  const listHeader = (
+    <>
       {/* Header */}
       <View style={styles.header}>
-        <MaterialIcons name="menu-book" size={32} color="#3b82f6" />
-        <Text style={[styles.headerTitle, isDark && styles.darkText]}>Dictionary</Text>
+        <MaterialIcons name="menu-book" size={32} color={colors.accent} />
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(32) }]}>Dictionary</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.headerAction} onPress={() => router.push('/review')}>
+            <MaterialCommunityIcons name="cards-outline" size={24} color={colors.text} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.headerAction} onPress={() => router.push('/favorites')}>
+            <Ionicons name="star-outline" size={24} color={colors.text} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.headerAction} onPress={() => router.push('/settings')}>
+            <Ionicons name="settings-outline" size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
       </View>
-      <Text style={[styles.subtitle, isDark && styles.darkText]}>Discover meanings, pronunciations, and examples</Text>
+      <Text style={[styles.subtitle, secondaryColor]}>Discover meanings, pronunciations, and examples</Text>
+
+      {/* Word of the Day */}
+      <WordOfTheDayCard
+        daily={wordOfTheDay}
+        onPress={() => {
+          setSearchTerm(wordOfTheDay.word);
+          searchWord(wordOfTheDay.word, { language: wordOfTheDay.language });
+        }}
+        onBrowse={() => router.push('/word-of-the-day')}
+      />
 
       {/* Search Form */}
-      <View style={[styles.card, isDark && styles.darkCard]}>
+      <View style={[styles.card, cardColors]}>
         <View style={styles.searchContainer}>
-          <MaterialIcons name="search" size={20} color="#9ca3af" style={styles.searchIcon} />
+          <MaterialIcons name="search" size={20} color={colors.placeholder} style={styles.searchIcon} />
           <TextInput
-            style={[styles.input, isDark && styles.darkInput]}
+            style={[styles.input, inputColors]}
             placeholder="Enter a word to search..."
-            placeholderTextColor={isDark ? '#9ca3af' : '#6b7280'}
+            placeholderTextColor={colors.placeholder}
             value={searchTerm}
-            onChangeText={setSearchTerm}
+            onChangeText={(text) => {
+              setSearchTerm(text);
+              setShowSuggestions(true);
+            }}
+            onSubmitEditing={() => searchWord(searchTerm)}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
           />
-          <TouchableOpacity 
-            style={styles.searchButton} 
+          <TouchableOpacity
+            style={[styles.languageButton, { backgroundColor: colors.input, borderColor: colors.inputBorder }]}
+            onPress={() => setShowLanguages(!showLanguages)}
+          >
+            <Text style={[styles.languageButtonText, textColor]}>{preferences.language}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.searchButton, { backgroundColor: colors.accent }]}
             onPress={() => searchWord(searchTerm)}
             disabled={loading}
           >
             {loading ? (
-              <ActivityIndicator size="small" color="#ffffff" />
+              <ActivityIndicator size="small" color={colors.onAccent} />
             ) : (
-              <Text style={styles.searchButtonText}>Search</Text>
+              <Text style={[styles.searchButtonText, { color: colors.onAccent }]}>Search</Text>
             )}
           </TouchableOpacity>
         </View>
+        {showLanguages && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.languageList}>
+            {SUPPORTED_LANGUAGES.map((language) => (
+              <TouchableOpacity
+                key={language.code}
+                style={[
+                  styles.historyItem,
+                  highlightColors,
+                  language.code === preferences.language && { backgroundColor: colors.accent },
+                ]}
+                onPress={() => {
+                  updatePreferences({ language: language.code });
+                  setShowLanguages(false);
+                }}
+              >
+                <Text
+                  style={[
+                    highlightTextColor,
+                    language.code === preferences.language && { color: colors.onAccent },
+                  ]}
+                >
+                  {language.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+        {suggestions.length > 0 && (
+          <View style={[styles.suggestions, { borderTopColor: colors.separator }]}>
+            {suggestions.map((word) => (
+              <TouchableOpacity
+                key={word}
+                style={styles.suggestionItem}
+                onPress={() => runSearch(word, preferences.language)}
+              >
+                <MaterialIcons name="north-west" size={16} color={colors.secondaryText} />
+                <Text style={[styles.suggestionText, textColor, { fontSize: font(16) }]}>{word}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <TouchableOpacity style={styles.reverseLink} onPress={() => router.push('/reverse')}>
+          <MaterialIcons name="manage-search" size={16} color={colors.accent} />
+          <Text style={[styles.reverseLinkText, { color: colors.accent, fontSize: font(13) }]}>
+            Know the meaning but not the word? Describe it
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {/* Search History */}
-      {searchHistory.length > 0 && (
-        <View style={[styles.card, isDark && styles.darkCard]}>
+      {recentSearches.length > 0 && (
+        <View style={[styles.card, cardColors]}>
           <View style={styles.historyHeader}>
-            <MaterialCommunityIcons name="clock-outline" size={20} color={isDark ? '#9ca3af' : '#6b7280'} />
-            <Text style={[styles.historyTitle, isDark && styles.darkText]}>Recent Searches</Text>
+            <MaterialCommunityIcons name="clock-outline" size={20} color={colors.placeholder} />
+            <Text style={[styles.historyTitle, textColor, { fontSize: font(16) }]}>Recent Searches</Text>
+            <TouchableOpacity style={styles.historyLink} onPress={() => router.push('/history')}>
+              <Text style={[styles.historyLinkText, { color: colors.accent }]}>See all</Text>
+            </TouchableOpacity>
           </View>
           <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.historyItems}>
-            {searchHistory.map((word, index) => (
+            {recentSearches.map((entry) => (
               <TouchableOpacity
-                key={index}
-                style={[styles.historyItem, isDark && styles.darkHistoryItem]}
-                onPress={() => {
-                  setSearchTerm(word);
-                  searchWord(word);
-                }}
+                key={`${entry.language}:${entry.word}`}
+                style={[styles.historyItem, highlightColors]}
+                onPress={() => runSearch(entry.word, entry.language)}
               >
-                <Text style={[styles.historyText, isDark && styles.darkText]}>{word}</Text>
+                <Text style={highlightTextColor}>{entry.word}</Text>
               </TouchableOpacity>
             ))}
           </ScrollView>
@@ -141,132 +385,251 @@ export default function DictionaryApp() {
 
       {/* Error Message */}
       {error && (
-        <View style={[styles.card, styles.errorCard, isDark && styles.darkErrorCard]}>
-          <Text style={styles.errorText}>{error}</Text>
-        </View>
-      )}
-
-      {/* Word Definition */}
-      {wordData && (
-        <View style={[styles.card, isDark && styles.darkCard]}>
-          {/* Word Header */}
-          <View style={styles.wordHeader}>
-            <View>
-              <Text style={[styles.wordTitle, isDark && styles.darkText]}>{wordData.word}</Text>
-              {wordData.phonetic && (
-                <Text style={[styles.phonetic, isDark && styles.darkSecondaryText]}>
-                  /{wordData.phonetic}/
-                </Text>
+        <View style={[styles.card, { backgroundColor: colors.errorBackground, borderColor: colors.errorBorder }]}>
+          <Text style={errorColor}>{describeError(error, failedTerm)}</Text>
+          {(isRetryable(error) || cachedCopy) && (
+            <View style={styles.errorActions}>
+              {isRetryable(error) && (
+                <TouchableOpacity
+                  style={[styles.errorAction, { borderColor: colors.errorBorder }]}
+                  onPress={() => searchWord(failedTerm, { language: failedLanguage })}
+                >
+                  <Ionicons name="refresh" size={16} color={colors.error} />
+                  <Text style={[styles.errorActionText, errorColor]}>Retry</Text>
+                </TouchableOpacity>
+              )}
+              {cachedCopy && (
+                <TouchableOpacity
+                  style={[styles.errorAction, { borderColor: colors.errorBorder }]}
+                  onPress={lookup.openCachedCopy}
+                >
+                  <MaterialCommunityIcons name="cloud-off-outline" size={16} color={colors.error} />
+                  <Text style={[styles.errorActionText, errorColor]}>Open cached copy</Text>
+                </TouchableOpacity>
               )}
             </View>
-            {wordData.phonetics.find((p) => p.audio) && (
-              <TouchableOpacity
-                style={styles.audioButton}
-                onPress={() => {
-                  const audioPhonetic = wordData.phonetics.find((p) => p.audio);
-                  if (audioPhonetic?.audio) {
-                    playAudio(audioPhonetic.audio);
-                  }
-                }}
-              >
-                <Ionicons name="volume-high-outline" size={20} color={isDark ? '#3b82f6' : '#2563eb'} />
-              </TouchableOpacity>
-            )}
-          </View>
-
-          {/* Origin */}
-          {wordData.origin && (
-            <View style={styles.section}>
-              <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Origin</Text>
-              <Text style={[styles.originText, isDark && styles.darkSecondaryText, styles.italic]}>
-                {wordData.origin}
-              </Text>
+          )}
+          {didYouMean.length > 0 && (
+            <View style={styles.didYouMean}>
+              <Text style={[styles.didYouMeanLabel, errorColor, { fontSize: font(14) }]}>Did you mean…</Text>
+              <View style={styles.didYouMeanItems}>
+                {didYouMean.map((word) => (
+                  <TouchableOpacity
+                    key={word}
+                    style={[styles.historyItem, highlightColors]}
+                    onPress={() => runSearch(word, failedLanguage)}
+                  >
+                    <Text style={highlightTextColor}>{word}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
             </View>
           )}
+        </View>
+      )}
 
-          {/* Meanings */}
-          {wordData.meanings.map((meaning, meaningIndex) => (
-            <View key={meaningIndex} style={styles.meaningSection}>
-              <View style={styles.partOfSpeechContainer}>
-                <Text style={[styles.partOfSpeech, isDark && styles.darkText]}>{meaning.partOfSpeech}</Text>
-              </View>
+      {/* Word Navigation */}
+      {(canGoBack(wordStack) || canGoForward(wordStack)) && (
+        <View style={[styles.card, styles.navRow, cardColors]}>
+          <TouchableOpacity onPress={() => navigateStack(goBack(wordStack))} disabled={!canGoBack(wordStack) || loading}>
+            <Ionicons name="chevron-back" size={22} color={canGoBack(wordStack) ? colors.accent : colors.disabled} />
+          </TouchableOpacity>
+          <Text style={[styles.navTrail, secondaryColor]} numberOfLines={1}>
+            {wordStack.words.slice(0, wordStack.index + 1).slice(-4).join(' › ')}
+          </Text>
+          <TouchableOpacity
+            onPress={() => navigateStack(goForward(wordStack))}
+            disabled={!canGoForward(wordStack) || loading}
+          >
+            <Ionicons
+              name="chevron-forward"
+              size={22}
+              color={canGoForward(wordStack) ? colors.accent : colors.disabled}
+            />
+          </TouchableOpacity>
+        </View>
+      )}
 
-              {meaning.definitions.map((definition, defIndex) => (
-                <View key={defIndex} style={styles.definitionContainer}>
-                  <View style={styles.definitionBullet} />
-                  <View style={styles.definitionContent}>
-                    <Text style={[styles.definitionText, isDark && styles.darkText]}>
-                      {definition.definition}
-                    </Text>
+      {/* Homograph Options */}
+      {entries.length > 1 && (
+        <View style={[styles.card, styles.mergeRow, cardColors]}>
+          <Text style={[secondaryColor, { fontSize: font(14) }]}>
+            {entries.length} entries · merge by part of speech
+          </Text>
+          <Switch value={mergeMeanings} onValueChange={setMergeMeanings} />
+        </View>
+      )}
 
-                    {definition.example && (
-                      <Text style={[styles.exampleText, isDark && styles.darkSecondaryText, styles.italic]}>
-                        Example: "{definition.example}"
-                      </Text>
-                    )}
+      {/* Entry Outline */}
+      {(entryPartsOfSpeech.length > 1 || sections.length > 1) && (
+        <EntryOutlineBar
+          partsOfSpeech={entryPartsOfSpeech}
+          selected={activePartOfSpeech}
+          onSelect={setPartOfSpeech}
+          sections={sections.map((section) =>
+            displayedEntries.length > 1
+              ? `${section.meaning.partOfSpeech} ${section.entryIndex + 1}`
+              : section.meaning.partOfSpeech,
+          )}
+          onJump={(sectionIndex) => {
+            pendingJump.current = sectionIndex;
+            jumpToSection(sectionIndex);
+          }}
+        />
+      )}
+    </>
+  );
 
-                    {definition.synonyms && definition.synonyms.length > 0 && (
-                      <View style={styles.synAntContainer}>
-                        <Text style={[styles.synAntLabel, { color: '#10b981' }]}>Synonyms: </Text>
-                        <Text style={[styles.synAntText, isDark && styles.darkSecondaryText]}>
-                          {definition.synonyms.join(", ")}
-                        </Text>
-                      </View>
-                    )}
+  const renderEntryHeader = (entryIndex: number) => {
+    const wordData = displayedEntries[entryIndex];
+    const audioUrl = wordData.phonetics.find((phonetic) => phonetic.audio)?.audio;
+    return (
+      <>
+        <WordHeader
+          title={homographLabel(wordData.word, entryIndex, displayedEntries.length)}
+          phonetic={wordData.phonetic}
+          source={entryIndex === 0 ? shown?.source : undefined}
+          favorite={entryIndex === 0 ? isFavorite(favorites, wordData.word, entryLanguage) : undefined}
+          onShare={() => shareWord(wordData.word, wordData.meanings[0]?.definitions[0]?.definition, entryLanguage)}
+          onToggleFavorite={() => toggleFavorite(entries, entryLanguage)}
+          onOpenThesaurus={
+            entryIndex === 0 && hasRelatedWords
+              ? () => router.push({ pathname: '/thesaurus', params: { word: wordData.word, lang: entryLanguage } })
+              : undefined
+          }
+          audioStatus={audioUrl ? pronunciation.statusOf(audioUrl) : null}
+          speaking={speech.speakingId === `word:${entryIndex}`}
+          onPronounce={() =>
+            audioUrl ? pronunciation.toggle(audioUrl) : speech.toggle(`word:${entryIndex}`, wordData.word, entryLanguage)
+          }
+        />
+
+        {/* Origin */}
+        {wordData.origin && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, textColor, { fontSize: font(18) }]}>Origin</Text>
+            <Text style={[secondaryColor, { fontSize: font(14) }, styles.italic, rtl && styles.rtl]}>
+              {wordData.origin}
+            </Text>
+          </View>
+        )}
+      </>
+    );
+  };
 
-                    {definition.antonyms && definition.antonyms.length > 0 && (
-                      <View style={styles.synAntContainer}>
-                        <Text style={[styles.synAntLabel, { color: '#ef4444' }]}>Antonyms: </Text>
-                        <Text style={[styles.synAntText, isDark && styles.darkSecondaryText]}>
-                          {definition.antonyms.join(", ")}
-                        </Text>
-                      </View>
-                    )}
-                  </View>
-                </View>
-              ))}
+  const renderEntryFooter = (entryIndex: number) => {
+    const wordData = displayedEntries[entryIndex];
+    return (
+      <>
+        {/* Notes */}
+        {entryIndex === 0 && (
+          <WordNotes
+            word={wordData.word}
+            language={entryLanguage}
+            onPressTag={(tag) => router.push({ pathname: '/tags', params: { tag } })}
+          />
+        )}
 
-              {meaningIndex < wordData.meanings.length - 1 && (
-                <View style={[styles.separator, isDark && styles.darkSeparator]} />
-              )}
-            </View>
-          ))}
+        {/* Additional Phonetics */}
+        {wordData.phonetics.length > 1 && (
+          <PhoneticList phonetics={wordData.phonetics} statusOf={pronunciation.statusOf} onPlay={pronunciation.toggle} />
+        )}
 
-          {/* Additional Phonetics */}
-          {wordData.phonetics.length > 1 && (
-            <View style={styles.section}>
-              <Text style={[styles.sectionTitle, isDark && styles.darkText]}>Pronunciations</Text>
-              <View style={styles.phoneticsContainer}>
-                {wordData.phonetics.map((phonetic, index) => (
-                  <View key={index} style={styles.phoneticItem}>
-                    {phonetic.text && (
-                      <Text style={[styles.phoneticText, isDark && styles.darkSecondaryText]}>
-                        /{phonetic.text}/
-                      </Text>
-                    )}
-                    {phonetic.audio && (
-                      <TouchableOpacity
-                        style={styles.smallAudioButton}
-                        onPress={() => playAudio(phonetic.audio!)}
-                      >
-                        <Ionicons name="volume-high-outline" size={16} color={isDark ? '#3b82f6' : '#2563eb'} />
-                      </TouchableOpacity>
-                    )}
-                  </View>
-                ))}
-              </View>
-            </View>
-          )}
-        </View>
+        {/* Sources */}
+        {(wordData.sourceUrls?.length || wordData.license) && (
+          <View style={[styles.sources, { borderTopColor: colors.separator }]}>
+            {wordData.sourceUrls?.map((url) => (
+              <Text
+                key={url}
+                style={[styles.sourceText, styles.crossReference, secondaryColor, { fontSize: font(12) }]}
+                onPress={() => WebBrowser.openBrowserAsync(url)}
+                numberOfLines={1}
+              >
+                {url}
+              </Text>
+            ))}
+            {wordData.license && (
+              <Text
+                style={[styles.sourceText, secondaryColor, { fontSize: font(12) }]}
+                onPress={wordData.license.url ? () => WebBrowser.openBrowserAsync(wordData.license!.url!) : undefined}
+              >
+                License: {wordData.license.name}
+              </Text>
+            )}
+          </View>
+        )}
+      </>
+    );
+  };
+
+  // Each entry is drawn as one card spread over its sections: the first opens it, the last closes it.
+  const renderSectionHeader = ({ section }: { section: OutlineSection }) => (
+    <View style={[section.firstOfEntry ? styles.cardTop : styles.cardBody, cardColors]}>
+      {section.firstOfEntry ? (
+        renderEntryHeader(section.entryIndex)
+      ) : (
+        <View style={[styles.separator, { backgroundColor: colors.separator }]} />
       )}
+      <MeaningSectionHeader
+        meaning={section.meaning}
+        collapsed={section.collapsed}
+        onToggleCollapsed={() => setCollapsed((current) => toggleKey(current, section.key))}
+        rtl={rtl}
+      />
+    </View>
+  );
 
-      {/* Footer */}
-      <View style={styles.footer}>
-        <Text style={[styles.footerText, isDark && styles.darkSecondaryText]}>
-          Developed by UDAY KUMAR CHINNI ( <AntDesign name="github" size={12} color="white" /> Uday6747)
-        </Text>
-      </View>
-    </ScrollView>
+  const renderDefinition = ({ item, index, section }: { item: Definition; index: number; section: OutlineSection }) => (
+    <View style={[styles.cardBody, cardColors]}>
+      <DefinitionItem
+        definition={item}
+        speechKey={`${section.entryIndex}:${section.meaningIndex}:${index}`}
+        speakingId={speech.speakingId}
+        onSpeak={(id, text) => speech.toggle(id, text, entryLanguage)}
+        onPressWord={(word) => runSearch(word, entryLanguage)}
+        rtl={rtl}
+      />
+    </View>
+  );
+
+  const renderSectionFooter = ({ section }: { section: OutlineSection }) => (
+    <View style={[section.lastOfEntry ? styles.cardBottom : styles.cardBody, cardColors]}>
+      <MeaningSectionFooter
+        meaning={section.meaning}
+        collapsed={section.collapsed}
+        hiddenCount={section.hiddenCount}
+        onShowAll={() => setExpanded((current) => toggleKey(current, section.key))}
+        onShowFewer={
+          expanded.has(section.key) && section.meaning.definitions.length > PREVIEW_DEFINITIONS
+            ? () => setExpanded((current) => toggleKey(current, section.key))
+            : undefined
+        }
+        onPressWord={(word) => runSearch(word, entryLanguage)}
+      />
+      {section.lastOfEntry && renderEntryFooter(section.entryIndex)}
+    </View>
+  );
+
+  return (
+    <SectionList
+      ref={listRef}
+      style={[styles.container, { backgroundColor: colors.background }]}
+      keyboardShouldPersistTaps="handled"
+      sections={sections}
+      renderItem={renderDefinition}
+      renderSectionHeader={renderSectionHeader}
+      renderSectionFooter={renderSectionFooter}
+      stickySectionHeadersEnabled={false}
+      onScrollToIndexFailed={retryJump}
+      ListHeaderComponent={listHeader}
+      ListFooterComponent={
+        <View style={styles.footer}>
+          <Text style={[secondaryColor, { fontSize: font(12) }]}>
+            Developed by UDAY KUMAR CHINNI ( <AntDesign name="github" size={12} color="white" /> Uday6747)
+          </Text>
+        </View>
+      }
+    />
   );
 }
 
@@ -274,10 +637,22 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     padding: 16,
-    backgroundColor: '#f0f9ff',
   },
-  darkContainer: {
-    backgroundColor: '#0f172a',
+  cardTop: {
+    borderTopLeftRadius: 12,
+    borderTopRightRadius: 12,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  cardBody: {
+    paddingHorizontal: 16,
+  },
+  cardBottom: {
+    borderBottomLeftRadius: 12,
+    borderBottomRightRadius: 12,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    marginBottom: 16,
   },
   header: {
     flexDirection: 'row',
@@ -286,32 +661,31 @@ const styles = StyleSheet.create({
     marginTop: 36,
     marginBottom: 8,
   },
+  headerActions: {
+    position: 'absolute',
+    right: 0,
+    flexDirection: 'row',
+  },
+  headerAction: {
+    padding: 4,
+  },
   headerTitle: {
-    fontSize: 32,
     fontWeight: 'bold',
     marginLeft: 8,
-    color: '#1e293b',
   },
   subtitle: {
     textAlign: 'center',
     marginBottom: 24,
-    color: '#475569',
   },
   card: {
-    backgroundColor: '#ffffff',
     borderRadius: 12,
     padding: 16,
     marginBottom: 16,
-    shadowColor: '#000',
     shadowOffset: { width: 0, height: 1 },
     shadowOpacity: 0.1,
     shadowRadius: 3,
     elevation: 2,
   },
-  darkCard: {
-    backgroundColor: '#1e293b',
-    shadowColor: '#64748b',
-  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -324,30 +698,42 @@ const styles = StyleSheet.create({
   input: {
     flex: 1,
     height: 48,
-    backgroundColor: '#f8fafc',
     borderWidth: 1,
-    borderColor: '#e2e8f0',
     borderRadius: 8,
     paddingLeft: 40,
     paddingRight: 12,
-    color: '#1e293b',
-  },
-  darkInput: {
-    backgroundColor: '#334155',
-    borderColor: '#475569',
-    color: '#f8fafc',
   },
   searchButton: {
-    backgroundColor: '#3b82f6',
     borderRadius: 8,
     paddingHorizontal: 16,
     paddingVertical: 12,
     marginLeft: 8,
   },
+  languageButton: {
+    height: 48,
+    minWidth: 44,
+    marginLeft: 8,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  languageButtonText: {
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  languageList: {
+    marginTop: 12,
+  },
   searchButtonText: {
-    color: '#ffffff',
     fontWeight: '600',
   },
+  mergeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   historyHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -355,798 +741,113 @@ const styles = StyleSheet.create({
   },
   historyTitle: {
     marginLeft: 8,
-    fontSize: 16,
     fontWeight: '600',
-    color: '#1e293b',
+  },
+  historyLink: {
+    marginLeft: 'auto',
+  },
+  historyLinkText: {
+    fontWeight: '600',
   },
   historyItems: {
     flexDirection: 'row',
   },
   historyItem: {
-    backgroundColor: '#e0f2fe',
     borderRadius: 20,
     paddingHorizontal: 12,
     paddingVertical: 6,
     marginRight: 8,
   },
-  darkHistoryItem: {
-    backgroundColor: '#1e40af',
-  },
-  historyText: {
-    color: '#0369a1',
-  },
-  errorCard: {
-    backgroundColor: '#fee2e2',
-    borderColor: '#fca5a5',
-  },
-  darkErrorCard: {
-    backgroundColor: '#7f1d1d',
-    borderColor: '#ef4444',
-  },
-  errorText: {
-    color: '#dc2626',
-  },
-  wordHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 12,
-  },
-  wordTitle: {
-    fontSize: 28,
-    fontWeight: 'bold',
-    color: '#1e293b',
-  },
-  phonetic: {
-    fontSize: 16,
-    color: '#64748b',
-    marginTop: 4,
-  },
-  darkSecondaryText: {
-    color: '#94a3b8',
-  },
-  audioButton: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    backgroundColor: '#e0f2fe',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  section: {
-    marginBottom: 20,
-  },
-  sectionTitle: {
-    fontSize: 18,
-    fontWeight: '600',
-    marginBottom: 8,
-    color: '#1e293b',
-  },
-  originText: {
-    color: '#64748b',
-  },
-  italic: {
-    fontStyle: 'italic',
-  },
-  meaningSection: {
-    marginBottom: 20,
-  },
-  partOfSpeechContainer: {
-    marginBottom: 12,
-  },
-  partOfSpeech: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#1e293b',
-  },
-  definitionContainer: {
-    flexDirection: 'row',
-    marginBottom: 12,
-  },
-  definitionBullet: {
-    width: 6,
-    height: 6,
-    borderRadius: 3,
-    backgroundColor: '#3b82f6',
-    marginTop: 8,
-    marginRight: 12,
-  },
-  definitionContent: {
-    flex: 1,
-  },
-  definitionText: {
-    fontSize: 16,
-    color: '#1e293b',
-    marginBottom: 4,
-  },
-  exampleText: {
-    fontSize: 14,
-    color: '#64748b',
-    marginBottom: 4,
-  },
-  synAntContainer: {
+  errorActions: {
     flexDirection: 'row',
     flexWrap: 'wrap',
-    marginTop: 4,
-  },
-  synAntLabel: {
-    fontSize: 14,
-    fontWeight: '600',
-  },
-  synAntText: {
-    fontSize: 14,
-    color: '#64748b',
-  },
-  separator: {
-    height: 1,
-    backgroundColor: '#e2e8f0',
-    marginVertical: 16,
-  },
-  darkSeparator: {
-    backgroundColor: '#334155',
-  },
-  phoneticsContainer: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 12,
-  },
-  phoneticItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  phoneticText: {
-    color: '#64748b',
-    marginRight: 8,
-  },
-  smallAudioButton: {
-    width: 30,
-    height: 30,
-    borderRadius: 15,
-    backgroundColor: '#e0f2fe',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  footer: {
-    marginTop: 24,
-    marginBottom: 64,
-    alignItems: 'center',
-  },
-  footerText: {
-    fontSize: 12,
-    color: '#64748b',
-  },
-  darkText: {
-    color: '#f8fafc',
-  },
-});
-
-/*
-New Style - by v0.dev - Corrected Code - can be used
-import React, { useState, useEffect } from 'react';
-import {
-  View,
-  Text,
-  TextInput,
-  TouchableOpacity,
-  ScrollView,
-  StyleSheet,
-  Alert,
-  ActivityIndicator,
-  SafeAreaView,
-  StatusBar,
-} from 'react-native';
-import { Ionicons } from '@expo/vector-icons';
-import { Audio } from 'expo-av';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-interface Phonetic {
-  text?: string;
-  audio?: string;
-}
-
-interface Definition {
-  definition: string;
-  example?: string;
-  synonyms?: string[];
-  antonyms?: string[];
-}
-
-interface Meaning {
-  partOfSpeech: string;
-  definitions: Definition[];
-}
-
-interface WordData {
-  word: string;
-  phonetic?: string;
-  phonetics: Phonetic[];
-  origin?: string;
-  meanings: Meaning[];
-}
-
-export default function DictionaryApp() {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [wordData, setWordData] = useState<WordData | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [searchHistory, setSearchHistory] = useState<string[]>([]);
-  const [favorites, setFavorites] = useState<string[]>([]);
-
-  useEffect(() => {
-    loadHistory();
-    loadFavorites();
-  }, []);
-
-  const loadHistory = async () => {
-    try {
-      const history = await AsyncStorage.getItem('searchHistory');
-      if (history) setSearchHistory(JSON.parse(history));
-    } catch (error) {
-      console.error('Failed to load history', error);
-    }
-  };
-
-  const saveHistory = async (history: string[]) => {
-    try {
-      await AsyncStorage.setItem('searchHistory', JSON.stringify(history));
-    } catch (error) {
-      console.error('Failed to save history', error);
-    }
-  };
-
-  const loadFavorites = async () => {
-    try {
-      const fav = await AsyncStorage.getItem('favorites');
-      if (fav) setFavorites(JSON.parse(fav));
-    } catch (error) {
-      console.error('Failed to load favorites', error);
-    }
-  };
-
-  const saveFavorites = async (fav: string[]) => {
-    try {
-      await AsyncStorage.setItem('favorites', JSON.stringify(fav));
-    } catch (error) {
-      console.error('Failed to save favorites', error);
-    }
-  };
-
-  const searchWord = async (word: string) => {
-    if (!word.trim()) return;
-
-    setLoading(true);
-
-    try {
-      const response = await fetch(
-        `https://api.dictionaryapi.dev/api/v2/entries/en/${word.toLowerCase()}`
-      );
-
-      if (!response.ok) {
-        throw new Error('Word not found');
-      }
-
-      const data = await response.json();
-      setWordData(data[0]);
-
-      // Update search history
-      const newHistory = [word, ...searchHistory.filter(item => item !== word)].slice(0, 5);
-      setSearchHistory(newHistory);
-      saveHistory(newHistory);
-    } catch (err) {
-      Alert.alert('Error', 'Word not found. Please try another word.');
-      setWordData(null);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleSearch = () => {
-    searchWord(searchTerm);
-  };
-
-  const playAudio = async (audioUrl: string) => {
-    try {
-      const { sound } = await Audio.Sound.createAsync({
-        uri: audioUrl.startsWith('//') ? `https:${audioUrl}` : audioUrl,
-      });
-      await sound.playAsync();
-    } catch (error) {
-      console.log('Audio playback failed:', error);
-      Alert.alert('Error', 'Could not play audio');
-    }
-  };
-
-  const toggleFavorite = async (word: string) => {
-    const updated = favorites.includes(word)
-      ? favorites.filter(w => w !== word)
-      : [...favorites, word];
-    
-    setFavorites(updated);
-    saveFavorites(updated);
-  };
-
-  const DefinitionItem = ({ definition, index }: { definition: Definition; index: number }) => (
-    <View key={index} style={styles.definitionContainer}>
-      <Text style={styles.definitionText}>
-        {index + 1}. {definition.definition}
-      </Text>
-      
-      {definition.example && (
-        <Text style={styles.exampleText}>
-          <Text style={styles.exampleLabel}>Example: </Text>
-          "{definition.example}"
-        </Text>
-      )}
-
-      {definition.synonyms && definition.synonyms.length > 0 && (
-        <Text style={styles.synonymsText}>
-          <Text style={styles.synonymsLabel}>Synonyms: </Text>
-          {definition.synonyms.join(', ')}
-        </Text>
-      )}
-
-      {definition.antonyms && definition.antonyms.length > 0 && (
-        <Text style={styles.antonymsText}>
-          <Text style={styles.antonymsLabel}>Antonyms: </Text>
-          {definition.antonyms.join(', ')}
-        </Text>
-      )}
-    </View>
-  );
-
-  const MeaningSection = ({ meaning, index }: { meaning: Meaning; index: number }) => (
-    <View key={index} style={styles.meaningContainer}>
-      <View style={styles.partOfSpeechContainer}>
-        <Text style={styles.partOfSpeechText}>{meaning.partOfSpeech}</Text>
-      </View>
-      
-      {meaning.definitions.slice(0, 3).map((definition, defIndex) => (
-        <DefinitionItem key={defIndex} definition={definition} index={defIndex} />
-      ))}
-    </View>
-  );
-
-  const PhoneticItem = ({ phonetic, index }: { phonetic: Phonetic; index: number }) => (
-    <View key={index} style={styles.phoneticItem}>
-      {phonetic.text && (
-        <Text style={styles.phoneticItemText}>/{phonetic.text}/</Text>
-      )}
-      {phonetic.audio && (
-        <TouchableOpacity
-          style={styles.phoneticAudioButton}
-          onPress={() => playAudio(phonetic.audio!)}
-        >
-          <Ionicons name="volume-high" size={16} color="#2563eb" />
-        </TouchableOpacity>
-      )}
-    </View>
-  );
-
-  return (
-    <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor="#f8fafc" />
-      
-      <View style={styles.header}>
-        <View style={styles.headerContent}>
-          <Ionicons name="book" size={32} color="#2563eb" />
-          <Text style={styles.headerTitle}>Dictionary</Text>
-          <TouchableOpacity 
-            style={styles.favoritesButton}
-            onPress={() => Alert.alert('Favorites', favorites.join(', ') || 'No favorites yet')}
-          >
-            <Ionicons name="bookmark" size={20} color="#2563eb" />
-          </TouchableOpacity>
-        </View>
-        <Text style={styles.headerSubtitle}>
-          Discover meanings, pronunciations, and examples
-        </Text>
-      </View>
-
-      
-      <View style={styles.searchContainer}>
-        <View style={styles.searchInputContainer}>
-          <Ionicons name="search" size={20} color="#9ca3af" style={styles.searchIcon} />
-          <TextInput
-            style={styles.searchInput}
-            placeholder="Enter a word to search..."
-            placeholderTextColor="#9ca3af"
-            value={searchTerm}
-            onChangeText={setSearchTerm}
-            onSubmitEditing={handleSearch}
-            returnKeyType="search"
-          />
-        </View>
-        <TouchableOpacity
-          style={[styles.searchButton, loading && styles.searchButtonDisabled]}
-          onPress={handleSearch}
-          disabled={loading}
-        >
-          {loading ? (
-            <ActivityIndicator color="white" size="small" />
-          ) : (
-            <Text style={styles.searchButtonText}>Search</Text>
-          )}
-        </TouchableOpacity>
-      </View>
-
-      
-      {searchHistory.length > 0 && (
-        <View style={styles.historyContainer}>
-          <View style={styles.historyHeader}>
-            <Ionicons name="time" size={16} color="#6b7280" />
-            <Text style={styles.historyTitle}>Recent Searches</Text>
-          </View>
-          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-            <View style={styles.historyTags}>
-              {searchHistory.map((word, index) => (
-                <TouchableOpacity
-                  key={index}
-                  style={styles.historyTag}
-                  onPress={() => {
-                    setSearchTerm(word);
-                    searchWord(word);
-                  }}
-                >
-                  <Text style={styles.historyTagText}>{word}</Text>
-                </TouchableOpacity>
-              ))}
-            </View>
-          </ScrollView>
-        </View>
-      )}
-
-      
-      <ScrollView style={styles.contentContainer} showsVerticalScrollIndicator={false}>
-        {wordData && (
-          <View style={styles.wordContainer}>
-            
-            <View style={styles.wordHeader}>
-              <View style={styles.wordTitleContainer}>
-                <Text style={styles.wordTitle}>{wordData.word}</Text>
-                {wordData.phonetic && (
-                  <Text style={styles.phoneticText}>/{wordData.phonetic}/</Text>
-                )}
-              </View>
-              
-              <View style={styles.wordActions}>
-                {wordData.phonetics.find(p => p.audio) && (
-                  <TouchableOpacity
-                    style={styles.audioButton}
-                    onPress={() => {
-                      const audioPhonetic = wordData.phonetics.find(p => p.audio);
-                      if (audioPhonetic?.audio) playAudio(audioPhonetic.audio);
-                    }}
-                  >
-                    <Ionicons name="volume-high" size={20} color="#2563eb" />
-                  </TouchableOpacity>
-                )}
-                <TouchableOpacity
-                  style={styles.favoriteButton}
-                  onPress={() => toggleFavorite(wordData.word)}
-                >
-                  <Ionicons 
-                    name={favorites.includes(wordData.word) ? 'bookmark' : 'bookmark-outline'} 
-                    size={20} 
-                    color="#2563eb" 
-                  />
-                </TouchableOpacity>
-              </View>
-            </View>
-
-    
-            {wordData.origin && (
-              <View style={styles.originContainer}>
-                <Text style={styles.originTitle}>Origin</Text>
-                <Text style={styles.originText}>{wordData.origin}</Text>
-              </View>
-            )}
-
-    
-            <View style={styles.meaningsContainer}>
-              {wordData.meanings.map((meaning, index) => (
-                <MeaningSection key={index} meaning={meaning} index={index} />
-              ))}
-            </View>
-
-            
-            {wordData.phonetics.length > 1 && (
-              <View style={styles.phoneticsContainer}>
-                <Text style={styles.phoneticsTitle}>Pronunciations</Text>
-                <View style={styles.phoneticsList}>
-                  {wordData.phonetics.map((phonetic, index) => (
-                    <PhoneticItem key={index} phonetic={phonetic} index={index} />
-                  ))}
-                </View>
-              </View>
-            )}
-          </View>
-        )}
-      </ScrollView>
-
-      
-      <View style={styles.footer}>
-        <Text style={styles.footerText}>Powered by Free Dictionary API</Text>
-      </View>
-    </SafeAreaView>
-  );
-}
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#f8fafc',
-  },
-  header: {
-    paddingHorizontal: 20,
-    paddingVertical: 16,
-    backgroundColor: 'white',
-    borderBottomWidth: 1,
-    borderBottomColor: '#e5e7eb',
-  },
-  headerContent: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    marginBottom: 8,
-    position: 'relative',
-  },
-  headerTitle: {
-    fontSize: 28,
-    fontWeight: 'bold',
-    color: '#111827',
-    marginLeft: 8,
-  },
-  favoritesButton: {
-    position: 'absolute',
-    right: 0,
-    padding: 8,
-  },
-  headerSubtitle: {
-    textAlign: 'center',
-    color: '#6b7280',
-    fontSize: 14,
-  },
-  searchContainer: {
-    flexDirection: 'row',
-    paddingHorizontal: 20,
-    paddingVertical: 16,
-    backgroundColor: 'white',
-    gap: 12,
+    gap: 8,
+    marginTop: 12,
   },
-  searchInputContainer: {
-    flex: 1,
+  errorAction: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#f9fafb',
-    borderRadius: 8,
     borderWidth: 1,
-    borderColor: '#e5e7eb',
-    paddingHorizontal: 12,
-  },
-  searchIcon: {
-    marginRight: 8,
-  },
-  searchInput: {
-    flex: 1,
-    paddingVertical: 12,
-    fontSize: 16,
-    color: '#111827',
-  },
-  searchButton: {
-    backgroundColor: '#2563eb',
-    paddingHorizontal: 20,
-    paddingVertical: 12,
     borderRadius: 8,
-    justifyContent: 'center',
-    alignItems: 'center',
-    minWidth: 80,
-  },
-  searchButtonDisabled: {
-    opacity: 0.6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
   },
-  searchButtonText: {
-    color: 'white',
+  errorActionText: {
+    marginLeft: 6,
     fontWeight: '600',
-    fontSize: 16,
   },
-  historyContainer: {
-    backgroundColor: 'white',
-    paddingHorizontal: 20,
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-    borderBottomColor: '#e5e7eb',
+  didYouMean: {
+    marginTop: 12,
   },
-  historyHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
+  didYouMeanLabel: {
     marginBottom: 8,
   },
-  historyTitle: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#6b7280',
-    marginLeft: 4,
-  },
-  historyTags: {
+  didYouMeanItems: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 8,
   },
-  historyTag: {
-    backgroundColor: '#f3f4f6',
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 16,
-    borderWidth: 1,
-    borderColor: '#e5e7eb',
-  },
-  historyTagText: {
-    color: '#374151',
-    fontSize: 14,
-  },
-  contentContainer: {
-    flex: 1,
-    paddingHorizontal: 20,
-    paddingTop: 16,
-  },
-  wordContainer: {
-    backgroundColor: 'white',
-    borderRadius: 12,
-    padding: 20,
-    marginBottom: 20,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 3,
+  suggestions: {
+    marginTop: 8,
+    borderTopWidth: 1,
   },
-  wordHeader: {
+  suggestionItem: {
     flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'flex-start',
-    marginBottom: 16,
-  },
-  wordTitleContainer: {
-    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
   },
-  wordTitle: {
-    fontSize: 32,
-    fontWeight: 'bold',
-    color: '#2563eb',
-    marginBottom: 4,
+  suggestionText: {
+    marginLeft: 8,
   },
-  wordActions: {
+  reverseLink: {
     flexDirection: 'row',
-    gap: 8,
-  },
-  phoneticText: {
-    fontSize: 18,
-    color: '#6b7280',
-  },
-  audioButton: {
-    padding: 8,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#e5e7eb',
+    alignItems: 'center',
+    marginTop: 12,
   },
-  favoriteButton: {
-    padding: 8,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#e5e7eb',
+  reverseLinkText: {
+    marginLeft: 6,
   },
-  originContainer: {
+  section: {
     marginBottom: 20,
   },
-  originTitle: {
-    fontSize: 16,
+  sectionTitle: {
     fontWeight: '600',
-    color: '#374151',
     marginBottom: 8,
   },
-  originText: {
-    fontSize: 14,
-    color: '#6b7280',
+  italic: {
     fontStyle: 'italic',
-    lineHeight: 20,
-  },
-  meaningsContainer: {
-    gap: 20,
   },
-  meaningContainer: {
-    borderLeftWidth: 3,
-    borderLeftColor: '#dbeafe',
-    paddingLeft: 16,
+  rtl: {
+    writingDirection: 'rtl',
+    textAlign: 'right',
   },
-  partOfSpeechContainer: {
-    backgroundColor: '#f0f9ff',
-    alignSelf: 'flex-start',
-    paddingHorizontal: 12,
-    paddingVertical: 4,
-    borderRadius: 16,
-    borderWidth: 1,
-    borderColor: '#bfdbfe',
-    marginBottom: 12,
+  crossReference: {
+    textDecorationLine: 'underline',
   },
-  partOfSpeechText: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: '#1e40af',
-  },
-  definitionContainer: {
+  separator: {
+    height: 1,
     marginBottom: 16,
   },
-  definitionText: {
-    fontSize: 16,
-    color: '#111827',
-    lineHeight: 24,
-    marginBottom: 8,
-  },
-  exampleText: {
-    fontSize: 14,
-    color: '#6b7280',
-    fontStyle: 'italic',
-    lineHeight: 20,
-    marginBottom: 6,
-  },
-  exampleLabel: {
-    fontWeight: '600',
-    fontStyle: 'normal',
-  },
-  synonymsText: {
-    fontSize: 14,
-    color: '#6b7280',
-    lineHeight: 20,
-    marginBottom: 4,
-  },
-  synonymsLabel: {
-    fontWeight: '600',
-    color: '#059669',
-  },
-  antonymsText: {
-    fontSize: 14,
-    color: '#6b7280',
-    lineHeight: 20,
-  },
-  antonymsLabel: {
-    fontWeight: '600',
-    color: '#dc2626',
-  },
-  phoneticsContainer: {
-    marginTop: 20,
-    paddingTop: 20,
-    borderTopWidth: 1,
-    borderTopColor: '#e5e7eb',
-  },
-  phoneticsList: {
-    gap: 12,
-  },
-  phoneticsTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#374151',
-    marginBottom: 12,
-  },
-  phoneticItem: {
+  navRow: {
     flexDirection: 'row',
     alignItems: 'center',
+    paddingVertical: 10,
   },
-  phoneticItemText: {
-    fontSize: 14,
-    color: '#6b7280',
-    marginRight: 8,
+  navTrail: {
+    flex: 1,
+    marginHorizontal: 8,
+    textAlign: 'center',
   },
-  phoneticAudioButton: {
-    padding: 4,
+  sources: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+  },
+  sourceText: {
+    marginBottom: 2,
   },
   footer: {
-    paddingVertical: 16,
+    marginTop: 24,
+    marginBottom: 64,
     alignItems: 'center',
-    backgroundColor: 'white',
-    borderTopWidth: 1,
-    borderTopColor: '#e5e7eb',
-  },
-  footerText: {
-    fontSize: 12,
-    color: '#9ca3af',
   },
 });
-*/
\ No newline at end of file
@@ -0,0 +1,386 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { AudioStatusIcon } from '@/components/AudioStatusIcon';
+import { ReadAloudButton } from '@/components/ReadAloudButton';
+import { usePreferences } from '@/hooks/usePreferences';
+import { usePronunciation } from '@/hooks/usePronunciation';
+import { useQuizStats } from '@/hooks/useQuizStats';
+import { useSpeech } from '@/hooks/useSpeech';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  buildQuiz,
+  currentDayStreak,
+  isCorrectAnswer,
+  modeStats,
+  QuizMode,
+  QuizQuestion,
+  recordAnswer,
+  recordSession,
+} from '@/lib/quiz';
+import { loadStudyWords } from '@/lib/studyWords';
+
+type ModeIcon = 'book-open-variant' | 'equal' | 'swap-horizontal' | 'ear-hearing';
+
+const MODES: { mode: QuizMode; title: string; description: string; icon: ModeIcon }[] = [
+  { mode: 'definition', title: 'Definitions', description: 'Pick the right meaning for a word.', icon: 'book-open-variant' },
+  { mode: 'synonym', title: 'Synonyms', description: 'Match a word with one that means the same.', icon: 'equal' },
+  { mode: 'antonym', title: 'Antonyms', description: 'Choose the word with the opposite meaning.', icon: 'swap-horizontal' },
+  { mode: 'spelling', title: 'Spelling', description: 'Hear a word and type it out.', icon: 'ear-hearing' },
+];
+
+const promptFor = (question: QuizQuestion) => {
+  switch (question.mode) {
+    case 'definition':
+      return `What does “${question.word}” mean?`;
+    case 'synonym':
+      return `Which word means the same as “${question.word}”?`;
+    case 'antonym':
+      return `Which word is the opposite of “${question.word}”?`;
+    case 'spelling':
+      return 'Listen and spell the word.';
+  }
+};
+
+export default function QuizScreen() {
+  const [mode, setMode] = useState<QuizMode | null>(null);
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [response, setResponse] = useState<string | null>(null);
+  const [spelling, setSpelling] = useState('');
+  const [score, setScore] = useState(0);
+  const stats = useQuizStats();
+  const preferences = usePreferences();
+  const pronunciation = usePronunciation();
+  const speech = useSpeech();
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const cardColors = { backgroundColor: colors.card, shadowColor: colors.cardShadow };
+  const inputColors = { backgroundColor: colors.input, borderColor: colors.inputBorder, color: colors.text };
+  const primaryButton = [styles.primaryButton, { backgroundColor: colors.accent }];
+  const primaryButtonText = [styles.primaryButtonText, { color: colors.onAccent }];
+  const listenButton = [styles.listenButton, { backgroundColor: colors.accentSurface }];
+
+  const question = questions?.[position];
+  const finished = questions !== null && questions.length > 0 && position >= questions.length;
+  const answered = response !== null;
+  const streak = mode ? modeStats(stats, mode).streak : 0;
+
+  const start = async (next: QuizMode) => {
+    setMode(next);
+    setQuestions(null);
+    setPosition(0);
+    setResponse(null);
+    setSpelling('');
+    setScore(0);
+    setQuestions(buildQuiz(await loadStudyWords(), next));
+  };
+
+  const answer = (value: string) => {
+    if (!question || !mode || answered) return;
+    const correct = isCorrectAnswer(question, value);
+    setResponse(value);
+    if (correct) setScore((previous) => previous + 1);
+    recordAnswer(mode, correct);
+  };
+
+  const next = () => {
+    if (!questions || !mode) return;
+    setResponse(null);
+    setSpelling('');
+    if (position + 1 >= questions.length) {
+      recordSession(mode, score, questions.length);
+    }
+    setPosition((previous) => previous + 1);
+  };
+
+  const playWord = (item: QuizQuestion) => {
+    if (item.mode !== 'spelling') return;
+    if (item.audio) pronunciation.toggle(item.audio);
+    else speech.toggle('quiz-word', item.word, preferences.language);
+  };
+
+  const choiceStyle = (choice: string) => {
+    if (!question || !answered) return null;
+    if (choice === question.answer) return { borderColor: colors.success, backgroundColor: colors.successBackground };
+    return choice === response ? { borderColor: colors.errorBorder, backgroundColor: colors.errorBackground } : null;
+  };
+
+  const renderQuestion = (item: QuizQuestion) => (
+    <View style={[styles.card, cardColors]}>
+      <Text style={[styles.partOfSpeech, secondaryColor, { fontSize: font(13) }]}>{item.partOfSpeech}</Text>
+      <Text style={[styles.prompt, textColor, { fontSize: font(20) }]}>{promptFor(item)}</Text>
+
+      {item.mode === 'spelling' ? (
+        <>
+          <View style={styles.listenRow}>
+            {item.audio ? (
+              <TouchableOpacity style={listenButton} onPress={() => playWord(item)}>
+                <AudioStatusIcon status={pronunciation.statusOf(item.audio)} size={32} color={colors.accent} />
+              </TouchableOpacity>
+            ) : (
+              <ReadAloudButton
+                style={listenButton}
+                speaking={speech.speakingId === 'quiz-word'}
+                onPress={() => playWord(item)}
+                size={32}
+                color={colors.accent}
+              />
+            )}
+          </View>
+          <Text style={[styles.hint, secondaryColor, { fontSize: font(14) }]}>{item.hint}</Text>
+          <TextInput
+            style={[styles.input, inputColors, { fontSize: font(16) }]}
+            placeholder="Type the word..."
+            placeholderTextColor={colors.placeholder}
+            value={spelling}
+            onChangeText={setSpelling}
+            onSubmitEditing={() => answer(spelling)}
+            editable={!answered}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {answered ? (
+            <Text
+              style={[
+                styles.feedback,
+                { color: isCorrectAnswer(item, response!) ? colors.success : colors.error, fontSize: font(15) },
+              ]}
+            >
+              {isCorrectAnswer(item, response!) ? 'Correct!' : `The answer is “${item.answer}”.`}
+            </Text>
+          ) : (
+            <TouchableOpacity style={primaryButton} onPress={() => answer(spelling)} disabled={!spelling.trim()}>
+              <Text style={primaryButtonText}>Check</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      ) : (
+        item.choices.map((choice) => (
+          <TouchableOpacity
+            key={choice}
+            style={[styles.choice, { borderColor: colors.inputBorder }, choiceStyle(choice)]}
+            onPress={() => answer(choice)}
+            disabled={answered}
+          >
+            <Text style={[textColor, { fontSize: font(15) }]}>{choice}</Text>
+          </TouchableOpacity>
+        ))
+      )}
+
+      {answered && (
+        <TouchableOpacity style={primaryButton} onPress={next}>
+          <Text style={primaryButtonText}>{position + 1 >= questions!.length ? 'Finish' : 'Next'}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => (mode ? setMode(null) : router.back())} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(24) }]}>Practice</Text>
+        {question && (
+          <Text style={secondaryColor}>
+            {position + 1} / {questions!.length}
+            {streak > 1 && ` · streak ${streak}`}
+          </Text>
+        )}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Mode Picker */}
+        {!mode && (
+          <>
+            <Text style={[styles.summaryText, secondaryColor, { fontSize: font(15) }]}>
+              {currentDayStreak(stats) > 0
+                ? `You have practised ${currentDayStreak(stats)} ${currentDayStreak(stats) === 1 ? 'day' : 'days'} in a row.`
+                : 'Questions are built from the words you have looked up and saved.'}
+            </Text>
+            {MODES.map((item) => {
+              const itemStats = modeStats(stats, item.mode);
+              return (
+                <TouchableOpacity
+                  key={item.mode}
+                  style={[styles.card, styles.modeCard, cardColors]}
+                  onPress={() => start(item.mode)}
+                >
+                  <MaterialCommunityIcons name={item.icon} size={28} color={colors.accent} />
+                  <View style={styles.modeBody}>
+                    <Text style={[styles.modeTitle, textColor, { fontSize: font(17) }]}>{item.title}</Text>
+                    <Text style={[styles.modeDescription, secondaryColor, { fontSize: font(14) }]}>
+                      {item.description}
+                    </Text>
+                    {itemStats.sessions > 0 && (
+                      <Text style={[styles.modeStats, secondaryColor, { fontSize: font(12) }]}>
+                        Best {Math.round(itemStats.bestScore * 100)}% · longest streak {itemStats.bestStreak}
+                      </Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </>
+        )}
+
+        {mode && questions === null && <ActivityIndicator style={styles.loading} color={colors.accent} />}
+
+        {mode && questions?.length === 0 && (
+          <View style={[styles.card, cardColors]}>
+            <Text style={[styles.summaryTitle, textColor, { fontSize: font(20) }]}>Not enough words yet</Text>
+            <Text style={[styles.summaryText, secondaryColor, { fontSize: font(15) }]}>
+              Look up or save a few more words with the same part of speech to practise this mode.
+            </Text>
+          </View>
+        )}
+
+        {/* Question */}
+        {question && renderQuestion(question)}
+
+        {/* Session Summary */}
+        {finished && mode && (
+          <View style={[styles.card, cardColors]}>
+            <Text style={[styles.summaryTitle, textColor, { fontSize: font(20) }]}>
+              {score} / {questions!.length} correct
+            </Text>
+            <Text style={[styles.summaryText, secondaryColor, { fontSize: font(15) }]}>
+              Best so far: {Math.round(modeStats(stats, mode).bestScore * 100)}% · longest streak{' '}
+              {modeStats(stats, mode).bestStreak}
+            </Text>
+            <TouchableOpacity style={primaryButton} onPress={() => start(mode)}>
+              <Text style={primaryButtonText}>Play again</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setMode(null)}>
+              <Text style={[styles.secondaryButtonText, { color: colors.accent }]}>Choose another mode</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 52,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: 'bold',
+  },
+  loading: {
+    marginTop: 48,
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 12,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  modeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  modeBody: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  modeTitle: {
+    fontWeight: '600',
+  },
+  modeDescription: {
+    marginTop: 2,
+  },
+  modeStats: {
+    marginTop: 4,
+  },
+  partOfSpeech: {
+    fontStyle: 'italic',
+  },
+  prompt: {
+    fontWeight: '600',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  choice: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  listenRow: {
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  listenButton: {
+    padding: 12,
+    borderRadius: 32,
+  },
+  hint: {
+    fontStyle: 'italic',
+    marginBottom: 12,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  feedback: {
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  primaryButton: {
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontWeight: '600',
+  },
+  summaryTitle: {
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  summaryText: {
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, FlatList, ActivityIndicator, StyleSheet } from 'react-native';
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { useTheme } from '@/hooks/useTheme';
+import { highlightTerms, loadReverseIndex, ReverseIndex, ReverseMatch } from '@/lib/reverseDictionary';
+
+export default function ReverseDictionaryScreen() {
+  const [description, setDescription] = useState('');
+  const [index, setIndex] = useState<ReverseIndex | null>(null);
+  const [failed, setFailed] = useState(false);
+  const query = useDebouncedValue(description.trim(), 250);
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const cardColors = { backgroundColor: colors.card, shadowColor: colors.cardShadow };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReverseIndex()
+      .then((loaded) => !cancelled && setIndex(loaded))
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const matches = useMemo(() => (index && query ? index.search(query) : []), [index, query]);
+
+  const openMatch = (match: ReverseMatch) =>
+    router.navigate({ pathname: '/', params: { search: match.word, lang: match.language } });
+
+  const renderMatch = ({ item }: { item: ReverseMatch }) => (
+    <TouchableOpacity style={[styles.card, cardColors]} onPress={() => openMatch(item)}>
+      <View style={styles.matchHeader}>
+        <Text style={[styles.word, textColor, { fontSize: font(18) }]}>{item.word}</Text>
+        <Text style={[styles.meta, secondaryColor, { fontSize: font(13) }]}>
+          {item.partOfSpeech} · {item.language}
+        </Text>
+      </View>
+      <Text style={[secondaryColor, { fontSize: font(14), lineHeight: font(20) }]} numberOfLines={3}>
+        {highlightTerms(item.definition, item.terms).map((part, partIndex) => (
+          <Text key={partIndex} style={part.match && [styles.highlight, textColor]}>
+            {part.text}
+          </Text>
+        ))}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(24) }]}>Describe a word</Text>
+      </View>
+
+      {/* Description */}
+      <View style={[styles.searchBox, cardColors]}>
+        <MaterialIcons name="manage-search" size={20} color={colors.placeholder} />
+        <TextInput
+          style={[styles.input, textColor, { fontSize: font(16) }]}
+          placeholder="e.g. fear of small spaces"
+          placeholderTextColor={colors.placeholder}
+          value={description}
+          onChangeText={setDescription}
+          autoFocus
+          returnKeyType="search"
+        />
+        {description.length > 0 && (
+          <TouchableOpacity onPress={() => setDescription('')}>
+            <Ionicons name="close-circle" size={18} color={colors.placeholder} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {failed ? (
+        <Text style={[styles.emptyText, secondaryColor]}>
+          Could not read the saved words and offline dictionary.
+        </Text>
+      ) : !index ? (
+        <ActivityIndicator color={colors.accent} style={styles.loading} />
+      ) : (
+        <FlatList
+          data={matches}
+          keyExtractor={(item) => `${item.language}:${item.word}`}
+          renderItem={renderMatch}
+          contentContainerStyle={styles.list}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, secondaryColor]}>
+              {query
+                ? 'No word matches that description.'
+                : 'Describe the meaning and matching words will appear here.'}
+              {'\n'}
+              Searches saved words, cached lookups and the offline dictionary.
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 52,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: 'bold',
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 12,
+    marginHorizontal: 8,
+  },
+  loading: {
+    marginTop: 48,
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  matchHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    marginBottom: 6,
+  },
+  word: {
+    fontWeight: '600',
+  },
+  meta: {
+    marginLeft: 8,
+    fontStyle: 'italic',
+  },
+  highlight: {
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 48,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useTheme } from '@/hooks/useTheme';
+import { WordData } from '@/lib/dictionary';
+import {
+  buildDeck,
+  dueCards,
+  dueTomorrow,
+  loadSchedules,
+  newSchedule,
+  ReviewCard,
+  ReviewGrade,
+  ReviewSchedule,
+  saveSchedule,
+  scheduleReview,
+} from '@/lib/review';
+import { loadStudyWords } from '@/lib/studyWords';
+import { Palette } from '@/lib/theme';
+
+const GRADES: { grade: ReviewGrade; label: string; color: keyof Palette }[] = [
+  { grade: 1, label: 'Again', color: 'error' },
+  { grade: 3, label: 'Hard', color: 'warning' },
+  { grade: 4, label: 'Good', color: 'success' },
+  { grade: 5, label: 'Easy', color: 'accent' },
+];
+
+export default function ReviewScreen() {
+  const [queue, setQueue] = useState<ReviewCard[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [results, setResults] = useState<{ word: string; grade: ReviewGrade }[]>([]);
+  const [tomorrow, setTomorrow] = useState<ReviewSchedule[]>([]);
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const cardColors = { backgroundColor: colors.card, shadowColor: colors.cardShadow };
+
+  useEffect(() => {
+    Promise.all([loadStudyWords(), loadSchedules()]).then(([sources, schedules]) => {
+      setQueue(dueCards(buildDeck(sources, schedules)));
+    });
+  }, []);
+
+  const card = queue?.[position];
+  const finished = queue !== null && position >= queue.length;
+
+  useEffect(() => {
+    if (!finished) return;
+    loadSchedules().then((schedules) => setTomorrow(dueTomorrow(Object.values(schedules))));
+  }, [finished]);
+
+  const grade = async (value: ReviewGrade) => {
+    if (!card) return;
+    await saveSchedule(scheduleReview(card.schedule ?? newSchedule(card.word), value));
+    setResults((previous) => [...previous, { word: card.word, grade: value }]);
+    setRevealed(false);
+    setPosition((previous) => previous + 1);
+  };
+
+  const renderAnswer = (entries: WordData[]) =>
+    entries.flatMap((entry) => entry.meanings).map((meaning, meaningIndex) => (
+      <View key={meaningIndex} style={styles.meaning}>
+        <Text style={[styles.partOfSpeech, textColor, { fontSize: font(16) }]}>{meaning.partOfSpeech}</Text>
+        {meaning.definitions.slice(0, 3).map((definition, defIndex) => (
+          <View key={defIndex} style={styles.definition}>
+            <Text style={[textColor, { fontSize: font(15) }]}>{definition.definition}</Text>
+            {definition.example && (
+              <Text style={[styles.exampleText, secondaryColor, { fontSize: font(14) }]}>
+                &ldquo;{definition.example}&rdquo;
+              </Text>
+            )}
+          </View>
+        ))}
+      </View>
+    ));
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(24) }]}>Review</Text>
+        {queue && !finished && (
+          <Text style={secondaryColor}>
+            {position + 1} / {queue.length}
+          </Text>
+        )}
+        <TouchableOpacity style={styles.practiceButton} onPress={() => router.push('/quiz')}>
+          <Ionicons name="game-controller-outline" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {queue === null && <ActivityIndicator style={styles.loading} color={colors.accent} />}
+
+      {/* Card */}
+      {card && (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={[styles.card, cardColors]}>
+            <Text style={[styles.word, textColor, { fontSize: font(32) }]}>{card.word}</Text>
+            {card.entries[0].phonetic && (
+              <Text style={[styles.phonetic, secondaryColor, { fontSize: font(16) }]}>
+                /{card.entries[0].phonetic}/
+              </Text>
+            )}
+            {revealed && <View style={[styles.separator, { backgroundColor: colors.separator }]} />}
+            {revealed && renderAnswer(card.entries)}
+          </View>
+
+          {revealed ? (
+            <View style={styles.grades}>
+              {GRADES.map(({ grade: value, label, color }) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.gradeButton, { backgroundColor: colors[color] }]}
+                  onPress={() => grade(value)}
+                >
+                  <Text style={[styles.gradeText, { color: colors.onAccent }]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[styles.revealButton, { backgroundColor: colors.accent }]}
+              onPress={() => setRevealed(true)}
+            >
+              <Text style={[styles.revealText, { color: colors.onAccent }]}>Show answer</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+
+      {/* Session Summary */}
+      {finished && (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={[styles.card, cardColors]}>
+            <Text style={[styles.summaryTitle, textColor, { fontSize: font(20) }]}>
+              {results.length === 0 ? 'Nothing due right now' : 'Session complete'}
+            </Text>
+            {results.length > 0 && (
+              <Text style={[styles.summaryText, secondaryColor, { fontSize: font(15) }]}>
+                Reviewed {results.length} {results.length === 1 ? 'word' : 'words'},{' '}
+                {results.filter((result) => result.grade >= 3).length} recalled.
+              </Text>
+            )}
+            <Text style={[styles.summaryText, secondaryColor, { fontSize: font(15) }]}>
+              {tomorrow.length === 0
+                ? 'No words are due tomorrow.'
+                : `Due tomorrow: ${tomorrow.map((schedule) => schedule.word).join(', ')}`}
+            </Text>
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 52,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: 'bold',
+  },
+  practiceButton: {
+    marginLeft: 16,
+  },
+  loading: {
+    marginTop: 48,
+  },
+  content: {
+    padding: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 24,
+    marginBottom: 16,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  word: {
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  phonetic: {
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  separator: {
+    height: 1,
+    marginVertical: 16,
+  },
+  meaning: {
+    marginBottom: 12,
+  },
+  partOfSpeech: {
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  definition: {
+    marginBottom: 8,
+  },
+  exampleText: {
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  revealButton: {
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  revealText: {
+    fontWeight: '600',
+  },
+  grades: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  gradeButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  gradeText: {
+    fontWeight: '600',
+  },
+  summaryTitle: {
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  summaryText: {
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,515 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTheme } from '@/hooks/useTheme';
+import { clearAudioCache } from '@/lib/audio';
+import { lookupCache } from '@/lib/cache/lookupCache';
+import { listProviders } from '@/lib/dictionary';
+import { SUPPORTED_LANGUAGES } from '@/lib/language';
+import { getInstalledPackMeta, installPack, PackError, PackMeta, uninstallPack } from '@/lib/offline';
+import { Preferences, updatePreferences } from '@/lib/preferences';
+import { getSpeechEngine, speak, SpeechVoice } from '@/lib/speech';
+import { FONT_SCALE_MAX, FONT_SCALE_MIN, ThemePreference } from '@/lib/theme';
+import { syncWordOfTheDayReminders, WordOfTheDaySource } from '@/lib/wordOfTheDay';
+
+const SPEECH_STEP = 0.25;
+const SPEECH_MIN = 0.5;
+const SPEECH_MAX = 2;
+
+const clampSpeech = (value: number) => Math.min(SPEECH_MAX, Math.max(SPEECH_MIN, Math.round(value * 100) / 100));
+
+const FONT_SCALE_STEP = 0.05;
+
+const clampFontScale = (value: number) =>
+  Math.min(FONT_SCALE_MAX, Math.max(FONT_SCALE_MIN, Math.round(value * 100) / 100));
+
+const RECENT_SEARCH_MAX = 10;
+
+const REMINDER_STEP_MINUTES = 30;
+const MINUTES_PER_DAY = 24 * 60;
+
+const THEMES: { value: ThemePreference; label: string }[] = [
+  { value: 'system', label: 'Match system' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+];
+
+const HISTORY_SIZES = [50, 100, 500, 1000];
+
+const CACHE_SIZES = [512 * 1024, 1024 * 1024, 5 * 1024 * 1024, 10 * 1024 * 1024];
+
+const WORD_OF_THE_DAY_SOURCES: { value: WordOfTheDaySource; label: string }[] = [
+  { value: 'curated', label: 'Curated list (same word on every device)' },
+  { value: 'saved', label: 'My saved words' },
+];
+
+const formatTime = (hour: number, minute: number) =>
+  new Date(2000, 0, 1, hour, minute).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const describePackFailure = (error: unknown) => {
+  if (!(error instanceof PackError)) return 'Could not read the file.';
+  switch (error.code) {
+    case 'outdated':
+      return 'This version of the pack is already installed.';
+    case 'unsupported-format':
+      return 'This pack needs a newer version of the app.';
+    default:
+      return `This file is not a dictionary pack: ${error.message}.`;
+  }
+};
+
+export default function SettingsScreen() {
+  const preferences = usePreferences();
+  const [voices, setVoices] = useState<SpeechVoice[]>([]);
+  const [reminderBlocked, setReminderBlocked] = useState(false);
+  const [reminderFailed, setReminderFailed] = useState(false);
+  const [cacheUsage, setCacheUsage] = useState<number | null>(null);
+  const [pack, setPack] = useState<PackMeta | null>(null);
+  const [packMessage, setPackMessage] = useState<string | null>(null);
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const onAccentColor = { color: colors.onAccent };
+
+  useEffect(() => {
+    getSpeechEngine()
+      .getVoices(preferences.language)
+      .then(setVoices)
+      .catch(() => setVoices([]));
+  }, [preferences.language]);
+
+  const refreshCacheUsage = useCallback(() => {
+    lookupCache
+      .size()
+      .then(setCacheUsage)
+      .catch(() => setCacheUsage(null));
+  }, []);
+
+  // Lowering the limit evicts entries, so usage is re-read after each change.
+  useEffect(() => {
+    refreshCacheUsage();
+  }, [refreshCacheUsage, preferences.cacheMaxBytes]);
+
+  useEffect(() => {
+    getInstalledPackMeta()
+      .then(setPack)
+      .catch(() => setPack(null));
+  }, []);
+
+  // Scheduled reminders bake in the word and time, so they are rebuilt whenever either changes.
+  const updateWordOfTheDay = async (changes: Partial<Preferences>) => {
+    const previous: Partial<Preferences> = {
+      wordOfTheDaySource: preferences.wordOfTheDaySource,
+      wordOfTheDayReminder: preferences.wordOfTheDayReminder,
+      wordOfTheDayHour: preferences.wordOfTheDayHour,
+      wordOfTheDayMinute: preferences.wordOfTheDayMinute,
+    };
+    setReminderFailed(false);
+    await updatePreferences(changes);
+    try {
+      const scheduled = await syncWordOfTheDayReminders();
+      setReminderBlocked(!scheduled);
+      if (!scheduled) await updatePreferences({ wordOfTheDayReminder: false });
+    } catch (error) {
+      console.error('Failed to schedule word of the day reminders', error);
+      await updatePreferences(previous);
+      setReminderFailed(true);
+    }
+  };
+
+  const shiftReminder = (minutes: number) => {
+    const total =
+      (preferences.wordOfTheDayHour * 60 + preferences.wordOfTheDayMinute + minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    updateWordOfTheDay({ wordOfTheDayHour: Math.floor(total / 60), wordOfTheDayMinute: total % 60 });
+  };
+
+  const clearCache = async () => {
+    await Promise.all([lookupCache.clear(), clearAudioCache()]);
+    refreshCacheUsage();
+  };
+
+  const choosePack = async () => {
+    setPackMessage(null);
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: 'application/json', copyToCacheDirectory: true });
+      if (result.canceled) return;
+      const installed = await installPack(await FileSystem.readAsStringAsync(result.assets[0].uri));
+      setPack(installed);
+      setPackMessage(`Installed ${installed.name}.`);
+    } catch (error) {
+      setPackMessage(describePackFailure(error));
+    }
+  };
+
+  const removePack = async () => {
+    setPackMessage(null);
+    try {
+      await uninstallPack();
+      setPackMessage('Switched back to the built-in word list.');
+    } catch (error) {
+      console.error('Failed to remove dictionary pack', error);
+      setPackMessage('Could not remove the pack. Try again.');
+    }
+    setPack(await getInstalledPackMeta().catch(() => null));
+  };
+
+  const renderStepper = (
+    label: string,
+    value: number,
+    display: string,
+    { min, max, step }: { min: number; max: number; step: number },
+    onChange: (next: number) => void,
+  ) => (
+    <View style={styles.row}>
+      <Text style={[styles.rowLabel, textColor, { fontSize: font(16) }]}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity onPress={() => onChange(value - step)} disabled={value <= min}>
+          <Ionicons name="remove-circle-outline" size={26} color={value <= min ? colors.border : colors.accent} />
+        </TouchableOpacity>
+        <Text style={[styles.stepperValue, textColor]}>{display}</Text>
+        <TouchableOpacity onPress={() => onChange(value + step)} disabled={value >= max}>
+          <Ionicons name="add-circle-outline" size={26} color={value >= max ? colors.border : colors.accent} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderSpeechStepper = (label: string, value: number, onChange: (next: number) => void) =>
+    renderStepper(label, value, `${value.toFixed(2)}×`, { min: SPEECH_MIN, max: SPEECH_MAX, step: SPEECH_STEP }, (next) =>
+      onChange(clampSpeech(next)),
+    );
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity key={key} style={styles.option} onPress={onPress}>
+      <Ionicons
+        name={selected ? 'radio-button-on' : 'radio-button-off'}
+        size={18}
+        color={selected ? colors.accent : colors.mutedText}
+      />
+      <Text style={[styles.optionText, textColor, { fontSize: font(15) }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderSection = (title: string, children: React.ReactNode) => (
+    <>
+      <Text style={[styles.sectionTitle, secondaryColor, { fontSize: font(13) }]}>{title}</Text>
+      <View style={[styles.card, { backgroundColor: colors.card, shadowColor: colors.cardShadow }]}>{children}</View>
+    </>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(24) }]}>Settings</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Appearance */}
+        {renderSection(
+          'Appearance',
+          <>
+            {THEMES.map((option) =>
+              renderOption(option.value, option.label, preferences.theme === option.value, () =>
+                updatePreferences({ theme: option.value }),
+              ),
+            )}
+            {renderStepper(
+              'Text size',
+              preferences.fontScale,
+              `${Math.round(preferences.fontScale * 100)}%`,
+              { min: FONT_SCALE_MIN, max: FONT_SCALE_MAX, step: FONT_SCALE_STEP },
+              (next) => updatePreferences({ fontScale: clampFontScale(next) }),
+            )}
+          </>,
+        )}
+
+        {/* Language */}
+        {renderSection(
+          'Default language',
+          SUPPORTED_LANGUAGES.map((language) =>
+            renderOption(language.code, language.label, preferences.language === language.code, () =>
+              updatePreferences({ language: language.code }),
+            ),
+          ),
+        )}
+
+        {/* Dictionary Source */}
+        {renderSection(
+          'Dictionary source',
+          listProviders().map((provider) =>
+            renderOption(provider.id, provider.name, preferences.providerId === provider.id, () =>
+              updatePreferences({ providerId: provider.id }),
+            ),
+          ),
+        )}
+
+        {/* Offline Dictionary */}
+        {renderSection(
+          'Offline dictionary',
+          <>
+            <Text style={[styles.rowLabel, textColor, { fontSize: font(16) }]}>{pack ? pack.name : 'Unavailable'}</Text>
+            {pack && (
+              <Text style={[styles.note, secondaryColor, { fontSize: font(13) }]}>
+                {pack.wordCount} words · {pack.language} · version {pack.version}
+                {pack.installedAt ? ` · installed ${new Date(pack.installedAt).toLocaleDateString()}` : ' · built in'}
+              </Text>
+            )}
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={[styles.button, { backgroundColor: colors.accent }]} onPress={choosePack}>
+                <Ionicons name="download-outline" size={16} color={colors.onAccent} />
+                <Text style={[styles.buttonText, onAccentColor]}>Install pack</Text>
+              </TouchableOpacity>
+              {pack?.installedAt && (
+                <TouchableOpacity
+                  style={[styles.button, styles.buttonSpacing, { backgroundColor: colors.accent }]}
+                  onPress={removePack}
+                >
+                  <Ionicons name="trash-outline" size={16} color={colors.onAccent} />
+                  <Text style={[styles.buttonText, onAccentColor]}>Remove</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {packMessage && <Text style={[styles.note, secondaryColor, { fontSize: font(13) }]}>{packMessage}</Text>}
+          </>,
+        )}
+
+        {/* History */}
+        {renderSection(
+          'History',
+          <>
+            <Text style={[styles.rowLabel, styles.optionsLabel, textColor, { fontSize: font(16) }]}>Lookups to keep</Text>
+            {HISTORY_SIZES.map((size) =>
+              renderOption(String(size), String(size), preferences.historySize === size, () =>
+                updatePreferences({ historySize: size }),
+              ),
+            )}
+            {renderStepper(
+              'Recent searches',
+              preferences.recentSearchCount,
+              String(preferences.recentSearchCount),
+              { min: 0, max: RECENT_SEARCH_MAX, step: 1 },
+              (recentSearchCount) => updatePreferences({ recentSearchCount }),
+            )}
+          </>,
+        )}
+
+        {/* Pronunciation */}
+        {renderSection(
+          'Pronunciation',
+          <View style={styles.row}>
+            <Text style={[styles.rowLabel, textColor, { fontSize: font(16) }]}>Play audio when an entry opens</Text>
+            <Switch
+              value={preferences.autoPlayPronunciation}
+              onValueChange={(autoPlayPronunciation) => updatePreferences({ autoPlayPronunciation })}
+            />
+          </View>,
+        )}
+
+        {/* Speech */}
+        {renderSection(
+          'Read aloud',
+          <>
+            {renderSpeechStepper('Rate', preferences.speechRate, (speechRate) => updatePreferences({ speechRate }))}
+            {renderSpeechStepper('Pitch', preferences.speechPitch, (speechPitch) => updatePreferences({ speechPitch }))}
+            <Text style={[styles.rowLabel, styles.optionsLabel, textColor, { fontSize: font(16) }]}>Voice</Text>
+            {[undefined, ...voices].map((voice) =>
+              renderOption(
+                voice?.id ?? 'default',
+                voice ? `${voice.name} (${voice.language})` : 'System default',
+                preferences.speechVoice === voice?.id,
+                () => updatePreferences({ speechVoice: voice?.id }),
+              ),
+            )}
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.accent }]}
+              onPress={() => speak('settings-test', 'Dictionary')}
+            >
+              <Ionicons name="play" size={16} color={colors.onAccent} />
+              <Text style={[styles.buttonText, onAccentColor]}>Test voice</Text>
+            </TouchableOpacity>
+          </>,
+        )}
+
+        {/* Word of the Day */}
+        {renderSection(
+          'Word of the Day',
+          <>
+            {WORD_OF_THE_DAY_SOURCES.map((option) =>
+              renderOption(option.value, option.label, preferences.wordOfTheDaySource === option.value, () =>
+                updateWordOfTheDay({ wordOfTheDaySource: option.value }),
+              ),
+            )}
+            <View style={styles.row}>
+              <Text style={[styles.rowLabel, textColor, { fontSize: font(16) }]}>Daily reminder</Text>
+              <Switch
+                value={preferences.wordOfTheDayReminder}
+                onValueChange={(wordOfTheDayReminder) => updateWordOfTheDay({ wordOfTheDayReminder })}
+              />
+            </View>
+            {preferences.wordOfTheDayReminder && (
+              <View style={styles.row}>
+                <Text style={[styles.rowLabel, textColor, { fontSize: font(16) }]}>Time</Text>
+                <View style={styles.stepper}>
+                  <TouchableOpacity onPress={() => shiftReminder(-REMINDER_STEP_MINUTES)}>
+                    <Ionicons name="remove-circle-outline" size={26} color={colors.accent} />
+                  </TouchableOpacity>
+                  <Text style={[styles.timeValue, textColor]}>
+                    {formatTime(preferences.wordOfTheDayHour, preferences.wordOfTheDayMinute)}
+                  </Text>
+                  <TouchableOpacity onPress={() => shiftReminder(REMINDER_STEP_MINUTES)}>
+                    <Ionicons name="add-circle-outline" size={26} color={colors.accent} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+            {reminderBlocked && (
+              <Text style={[styles.note, secondaryColor, { fontSize: font(13) }]}>
+                Notifications are turned off for this app. Allow them in system settings to get a daily reminder.
+              </Text>
+            )}
+            {reminderFailed && (
+              <Text style={[styles.note, { color: colors.error, fontSize: font(13) }]}>
+                The reminder could not be scheduled, so the previous setting was kept.
+              </Text>
+            )}
+          </>,
+        )}
+
+        {/* Cache */}
+        {renderSection(
+          'Offline cache',
+          <>
+            <Text style={[styles.rowLabel, styles.optionsLabel, textColor, { fontSize: font(16) }]}>Size limit</Text>
+            {CACHE_SIZES.map((size) =>
+              renderOption(String(size), formatBytes(size), preferences.cacheMaxBytes === size, () =>
+                updatePreferences({ cacheMaxBytes: size }),
+              ),
+            )}
+            <Text style={[styles.note, secondaryColor, { fontSize: font(13) }]}>
+              {cacheUsage === null ? 'Usage unavailable' : `${formatBytes(cacheUsage)} of looked-up entries in use`}
+            </Text>
+            <TouchableOpacity style={[styles.button, { backgroundColor: colors.accent }]} onPress={clearCache}>
+              <Ionicons name="trash-outline" size={16} color={colors.onAccent} />
+              <Text style={[styles.buttonText, onAccentColor]}>Clear cache</Text>
+            </TouchableOpacity>
+          </>,
+        )}
+
+        {/* Data */}
+        {renderSection(
+          'Data',
+          <TouchableOpacity style={styles.row} onPress={() => router.push('/backup')}>
+            <Text style={[styles.rowLabel, textColor, { fontSize: font(16) }]}>Backup & restore</Text>
+            <Ionicons name="chevron-forward" size={20} color={colors.mutedText} />
+          </TouchableOpacity>,
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 52,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: 'bold',
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  rowLabel: {
+    flexShrink: 1,
+  },
+  optionsLabel: {
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    width: 56,
+    textAlign: 'center',
+    fontVariant: ['tabular-nums'],
+  },
+  timeValue: {
+    width: 88,
+    textAlign: 'center',
+    fontVariant: ['tabular-nums'],
+  },
+  note: {
+    marginTop: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  optionText: {
+    marginLeft: 8,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+  },
+  buttonSpacing: {
+    marginLeft: 8,
+  },
+  buttonText: {
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
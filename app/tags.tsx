@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, FlatList, ScrollView, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useNotes } from '@/hooks/useNotes';
+import { useTheme } from '@/hooks/useTheme';
+import { DEFAULT_LANGUAGE, isRtlLanguage } from '@/lib/language';
+import { notesWithTag, tagCounts, WordNote } from '@/lib/notes';
+
+export default function TagsScreen() {
+  const notes = useNotes();
+  const params = useLocalSearchParams<{ tag?: string }>();
+  const [selectedTag, setSelectedTag] = useState<string | null>(params.tag ?? null);
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const cardColors = { backgroundColor: colors.card, shadowColor: colors.cardShadow };
+
+  const tags = useMemo(() => tagCounts(notes), [notes]);
+  const activeTag = selectedTag ?? tags[0]?.tag ?? null;
+  const words = useMemo(() => (activeTag ? notesWithTag(notes, activeTag) : []), [notes, activeTag]);
+
+  const renderWord = ({ item }: { item: WordNote }) => (
+    <TouchableOpacity
+      style={[styles.card, cardColors]}
+      onPress={() => router.navigate({ pathname: '/', params: { search: item.word, lang: item.language } })}
+    >
+      <Text style={[styles.word, textColor, { fontSize: font(20) }]}>
+        {item.word}
+        {item.language !== DEFAULT_LANGUAGE && (
+          <Text style={[styles.language, secondaryColor, { fontSize: font(13) }]}> · {item.language}</Text>
+        )}
+      </Text>
+      {item.text.trim().length > 0 && (
+        <Text
+          style={[styles.note, secondaryColor, { fontSize: font(14) }, isRtlLanguage(item.language) && styles.rtl]}
+          numberOfLines={2}
+        >
+          {item.text}
+        </Text>
+      )}
+      <Text style={[styles.otherTags, secondaryColor, { fontSize: font(12) }]}>
+        {item.tags.map((tag) => `#${tag}`).join(' ')}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(24) }]}>Tags</Text>
+      </View>
+
+      {/* Tag Filter */}
+      {tags.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filters}>
+          {tags.map(({ tag, count }) => (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.chip, { backgroundColor: activeTag === tag ? colors.accent : colors.chip }]}
+              onPress={() => setSelectedTag(tag)}
+            >
+              <Text style={[{ color: colors.chipText }, activeTag === tag && { color: colors.onAccent }]}>
+                #{tag} ({count})
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <FlatList
+        data={words}
+        keyExtractor={(item) => `${item.language}:${item.word}`}
+        renderItem={renderWord}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, secondaryColor]}>
+            {tags.length === 0 ? 'Add tags to a word from its notes to browse them here.' : 'No words carry this tag.'}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 52,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: 'bold',
+  },
+  filters: {
+    flexGrow: 0,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
+  chip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  word: {
+    fontWeight: 'bold',
+  },
+  language: {
+    fontWeight: 'normal',
+  },
+  note: {
+    marginTop: 6,
+  },
+  otherTags: {
+    marginTop: 6,
+  },
+  rtl: {
+    writingDirection: 'rtl',
+    textAlign: 'right',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 48,
+  },
+});
@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, ActivityIndicator, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { RelatedWordChips } from '@/components/WordGraph';
+import { useTheme } from '@/hooks/useTheme';
+import { buildThesaurus, lookupWord, WordData } from '@/lib/dictionary';
+import { DEFAULT_LANGUAGE, normalizeTerm } from '@/lib/language';
+
+export default function ThesaurusScreen() {
+  const params = useLocalSearchParams<{ word: string; lang?: string }>();
+  const word = params.word ?? '';
+  const language = params.lang ?? DEFAULT_LANGUAGE;
+  const [entries, setEntries] = useState<WordData[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const cardColors = { backgroundColor: colors.card, shadowColor: colors.cardShadow };
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setFailed(false);
+    lookupWord(word, { language })
+      .then((result) => !cancelled && setEntries(result.entries))
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [word, language]);
+
+  const groups = useMemo(() => (entries ? buildThesaurus(entries, language) : []), [entries, language]);
+  const path = [normalizeTerm(word, language)];
+
+  const openWord = (related: string) => router.navigate({ pathname: '/', params: { search: related, lang: language } });
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(24) }]} numberOfLines={1}>
+          {word}
+        </Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {!entries && !failed && <ActivityIndicator color={colors.accent} style={styles.loading} />}
+        {(failed || (entries && groups.length === 0)) && (
+          <Text style={[styles.emptyText, secondaryColor]}>
+            {failed ? 'Could not look this word up.' : 'This entry lists no synonyms or antonyms.'}
+          </Text>
+        )}
+        {groups.length > 0 && (
+          <Text style={[styles.hint, secondaryColor, { fontSize: font(13) }]}>
+            Tap a word to see its own related words; hold it to open its entry.
+          </Text>
+        )}
+
+        {groups.map((group) => (
+          <View key={group.partOfSpeech} style={[styles.card, cardColors]}>
+            <Text style={[styles.partOfSpeech, textColor, { fontSize: font(18) }]}>{group.partOfSpeech}</Text>
+            {group.senses.map((sense, index) => (
+              <View key={index} style={styles.sense}>
+                <Text style={[styles.senseTitle, secondaryColor, { fontSize: font(14) }]} numberOfLines={2}>
+                  {sense.definition ?? 'General'}
+                </Text>
+                <RelatedWordChips
+                  words={sense.synonyms}
+                  relation="synonym"
+                  language={language}
+                  path={path}
+                  onOpenWord={openWord}
+                />
+                <RelatedWordChips
+                  words={sense.antonyms}
+                  relation="antonym"
+                  language={language}
+                  path={path}
+                  onOpenWord={openWord}
+                />
+              </View>
+            ))}
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 52,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: 'bold',
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  loading: {
+    marginTop: 48,
+  },
+  hint: {
+    marginBottom: 12,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  partOfSpeech: {
+    fontWeight: '600',
+  },
+  sense: {
+    marginTop: 12,
+  },
+  senseTitle: {
+    fontStyle: 'italic',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 48,
+  },
+});
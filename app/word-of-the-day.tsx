@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, FlatList, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useFavorites } from '@/hooks/useFavorites';
+import { usePreferences } from '@/hooks/usePreferences';
+import { useTheme } from '@/hooks/useTheme';
+import { DEFAULT_LANGUAGE } from '@/lib/language';
+import { DailyWord, recentWordsOfTheDay } from '@/lib/wordOfTheDay';
+
+const PAST_DAYS = 30;
+
+const dayTitle = (day: string, index: number) => {
+  if (index === 0) return 'Today';
+  if (index === 1) return 'Yesterday';
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+export default function WordOfTheDayScreen() {
+  const preferences = usePreferences();
+  const favorites = useFavorites();
+  const { colors, font } = useTheme();
+  const textColor = { color: colors.text };
+  const secondaryColor = { color: colors.secondaryText };
+  const cardColors = { backgroundColor: colors.card, shadowColor: colors.cardShadow };
+
+  const days = useMemo(
+    () => recentWordsOfTheDay(PAST_DAYS, preferences.wordOfTheDaySource, favorites),
+    [preferences.wordOfTheDaySource, favorites],
+  );
+
+  const renderDay = ({ item, index }: { item: DailyWord; index: number }) => (
+    <TouchableOpacity
+      style={[styles.card, cardColors]}
+      onPress={() => router.navigate({ pathname: '/', params: { search: item.word, lang: item.language } })}
+    >
+      <Text style={[styles.day, secondaryColor, { fontSize: font(12) }]}>{dayTitle(item.day, index)}</Text>
+      <Text style={[styles.word, textColor, { fontSize: font(20) }]}>
+        {item.word}
+        {item.language !== DEFAULT_LANGUAGE && ` · ${item.language}`}
+      </Text>
+      {item.definition && (
+        <Text style={[styles.definition, secondaryColor, { fontSize: font(14) }]} numberOfLines={2}>
+          {item.partOfSpeech && `(${item.partOfSpeech}) `}
+          {item.definition}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, textColor, { fontSize: font(24) }]}>Word of the Day</Text>
+        <TouchableOpacity onPress={() => router.push('/settings')}>
+          <Ionicons name="notifications-outline" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={days}
+        keyExtractor={(item) => item.day}
+        renderItem={renderDay}
+        contentContainerStyle={styles.list}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 52,
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontWeight: 'bold',
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  day: {
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  word: {
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  definition: {
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,7 @@
+import React from 'react';
+import DictionaryApp from '../index';
+
+/** Deep-link target for `dictionary://word/<term>`: the main screen, opened on that term. */
+export default function WordScreen() {
+  return <DictionaryApp />;
+}
@@ -0,0 +1,23 @@
+import React from 'react';
+import { ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { PlaybackStatus } from '@/lib/audio';
+
+const ICONS = {
+  idle: 'volume-high-outline',
+  playing: 'stop',
+  error: 'alert-circle-outline',
+} as const;
+
+interface AudioStatusIconProps {
+  status: PlaybackStatus;
+  size: number;
+  color: string;
+}
+
+export function AudioStatusIcon({ status, size, color }: AudioStatusIconProps) {
+  const { colors } = useTheme();
+  if (status === 'loading') return <ActivityIndicator size="small" color={color} />;
+  return <Ionicons name={ICONS[status]} size={size} color={status === 'error' ? colors.error : color} />;
+}
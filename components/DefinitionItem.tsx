@@ -0,0 +1,117 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { LinkedText } from '@/components/LinkedText';
+import { ReadAloudButton } from '@/components/ReadAloudButton';
+import { RelatedWords } from '@/components/RelatedWords';
+import { useTheme } from '@/hooks/useTheme';
+import { Definition } from '@/lib/dictionary';
+
+interface DefinitionItemProps {
+  definition: Definition;
+  /** Prefix for the speech ids of this definition and its example. */
+  speechKey: string;
+  speakingId: string | null;
+  onSpeak: (id: string, text: string) => void;
+  onPressWord: (word: string) => void;
+  rtl?: boolean;
+}
+
+/** One bulleted sense: the definition, its example and its own synonyms and antonyms. */
+export function DefinitionItem({ definition, speechKey, speakingId, onSpeak, onPressWord, rtl }: DefinitionItemProps) {
+  const { colors, font } = useTheme();
+  const definitionId = `definition:${speechKey}`;
+  const exampleId = `example:${speechKey}`;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.bullet, { backgroundColor: colors.accent }]} />
+      <View style={styles.content}>
+        <View style={styles.readAloudRow}>
+          <LinkedText
+            text={definition.definition}
+            style={[
+              styles.definitionText,
+              { color: colors.text, fontSize: font(16) },
+              styles.readAloudText,
+              rtl && styles.rtl,
+            ]}
+            onPressWord={onPressWord}
+          />
+          <ReadAloudButton
+            style={styles.readAloudButton}
+            speaking={speakingId === definitionId}
+            onPress={() => onSpeak(definitionId, definition.definition)}
+            color={colors.secondaryText}
+          />
+        </View>
+
+        {definition.example && (
+          <View style={styles.readAloudRow}>
+            <Text
+              style={[
+                styles.exampleText,
+                { color: colors.secondaryText, fontSize: font(14) },
+                styles.readAloudText,
+                styles.italic,
+                rtl && styles.rtl,
+              ]}
+            >
+              Example: &ldquo;
+              <LinkedText text={definition.example} onPressWord={onPressWord} />
+              &rdquo;
+            </Text>
+            <ReadAloudButton
+              style={styles.readAloudButton}
+              speaking={speakingId === exampleId}
+              onPress={() => onSpeak(exampleId, definition.example!)}
+              color={colors.secondaryText}
+            />
+          </View>
+        )}
+
+        <RelatedWords synonyms={definition.synonyms} antonyms={definition.antonyms} onPressWord={onPressWord} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  bullet: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginTop: 8,
+    marginRight: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  readAloudRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  readAloudText: {
+    flex: 1,
+  },
+  readAloudButton: {
+    marginLeft: 8,
+    marginTop: 2,
+  },
+  definitionText: {
+    marginBottom: 4,
+  },
+  exampleText: {
+    marginBottom: 4,
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  rtl: {
+    writingDirection: 'rtl',
+    textAlign: 'right',
+  },
+});
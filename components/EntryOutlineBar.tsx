@@ -0,0 +1,89 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { useTheme } from '@/hooks/useTheme';
+
+interface EntryOutlineBarProps {
+  partsOfSpeech: string[];
+  /** The part of speech the entry is filtered to, or null for all of them. */
+  selected: string | null;
+  onSelect: (partOfSpeech: string | null) => void;
+  /** Labels of the sections currently shown, in list order. */
+  sections: string[];
+  onJump: (sectionIndex: number) => void;
+}
+
+/** Part-of-speech filter chips and jump links for the sections of a long entry. */
+export function EntryOutlineBar({ partsOfSpeech, selected, onSelect, sections, onJump }: EntryOutlineBarProps) {
+  const { colors, font } = useTheme();
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, { backgroundColor: colors.chip }, active && { backgroundColor: colors.accent }]}
+      onPress={onPress}
+    >
+      <Text style={{ color: active ? colors.onAccent : colors.chipText, fontSize: font(14) }}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card, shadowColor: colors.cardShadow }]}>
+      {partsOfSpeech.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {renderChip('all', 'All', selected === null, () => onSelect(null))}
+          {partsOfSpeech.map((partOfSpeech) =>
+            renderChip(partOfSpeech, partOfSpeech, selected === partOfSpeech, () =>
+              onSelect(selected === partOfSpeech ? null : partOfSpeech),
+            ),
+          )}
+        </ScrollView>
+      )}
+      {sections.length > 1 && (
+        <View style={[styles.jumpRow, partsOfSpeech.length > 1 && styles.jumpRowSpacing]}>
+          <Text style={[styles.jumpLabel, { color: colors.secondaryText, fontSize: font(13) }]}>Jump to</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {sections.map((label, index) => (
+              <TouchableOpacity key={index} style={styles.jumpLink} onPress={() => onJump(index)}>
+                <Text style={[styles.jumpLinkText, { color: colors.accent, fontSize: font(14) }]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  chip: {
+    borderRadius: 20,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  jumpRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  jumpRowSpacing: {
+    marginTop: 10,
+  },
+  jumpLabel: {
+    marginRight: 8,
+  },
+  jumpLink: {
+    marginRight: 12,
+  },
+  jumpLinkText: {
+    fontWeight: '600',
+  },
+});
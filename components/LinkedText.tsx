@@ -0,0 +1,32 @@
+import React from 'react';
+import { StyleProp, Text, TextStyle } from 'react-native';
+import { STOP_WORDS } from '@/lib/offline/searchIndex';
+
+const WORD_PATTERN = /(\p{L}+(?:['’-]\p{L}+)*)/u;
+
+interface LinkedTextProps {
+  text: string;
+  style?: StyleProp<TextStyle>;
+  linkStyle?: StyleProp<TextStyle>;
+  onPressWord: (word: string) => void;
+}
+
+/** Renders text with every content word tappable; punctuation and stop words stay plain. */
+export function LinkedText({ text, style, linkStyle, onPressWord }: LinkedTextProps) {
+  const parts = text.split(WORD_PATTERN);
+  return (
+    <Text style={style}>
+      {parts.map((part, index) => {
+        // split() with a capture group puts matched words at odd indices.
+        const isWord = index % 2 === 1 && part.length > 1 && !STOP_WORDS.has(part.toLowerCase());
+        return isWord ? (
+          <Text key={index} style={linkStyle} onPress={() => onPressWord(part.toLowerCase())} suppressHighlighting>
+            {part}
+          </Text>
+        ) : (
+          part
+        );
+      })}
+    </Text>
+  );
+}
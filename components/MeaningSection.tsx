@@ -0,0 +1,99 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { RelatedWords } from '@/components/RelatedWords';
+import { useTheme } from '@/hooks/useTheme';
+import { Meaning } from '@/lib/dictionary';
+
+interface MeaningSectionHeaderProps {
+  meaning: Meaning;
+  collapsed: boolean;
+  onToggleCollapsed: () => void;
+  rtl?: boolean;
+}
+
+/** The part of speech heading a meaning, tappable to collapse or reopen its definitions. */
+export function MeaningSectionHeader({ meaning, collapsed, onToggleCollapsed, rtl }: MeaningSectionHeaderProps) {
+  const { colors, font } = useTheme();
+
+  return (
+    <TouchableOpacity style={styles.header} onPress={onToggleCollapsed}>
+      <Text style={[styles.partOfSpeech, { color: colors.text, fontSize: font(18) }, rtl && styles.rtl]}>
+        {meaning.partOfSpeech}
+      </Text>
+      <Text style={[styles.count, { color: colors.secondaryText, fontSize: font(13) }]}>
+        {meaning.definitions.length} {meaning.definitions.length === 1 ? 'definition' : 'definitions'}
+      </Text>
+      <Ionicons name={collapsed ? 'chevron-down' : 'chevron-up'} size={18} color={colors.secondaryText} />
+    </TouchableOpacity>
+  );
+}
+
+interface MeaningSectionFooterProps {
+  meaning: Meaning;
+  collapsed: boolean;
+  /** Definitions not shown yet; a "show all" link appears when there are any. */
+  hiddenCount: number;
+  onShowAll: () => void;
+  /** Returns to the preview; only offered once every definition is shown. */
+  onShowFewer?: () => void;
+  onPressWord: (word: string) => void;
+}
+
+/** What follows a meaning's definitions: the preview toggle and the meaning-wide related words. */
+export function MeaningSectionFooter({
+  meaning,
+  collapsed,
+  hiddenCount,
+  onShowAll,
+  onShowFewer,
+  onPressWord,
+}: MeaningSectionFooterProps) {
+  const { colors, font } = useTheme();
+  if (collapsed) return null;
+  const toggleStyle = [styles.toggleText, { color: colors.accent, fontSize: font(14) }];
+
+  return (
+    <View style={styles.footer}>
+      {hiddenCount > 0 && (
+        <TouchableOpacity onPress={onShowAll}>
+          <Text style={toggleStyle}>
+            Show {hiddenCount} more {hiddenCount === 1 ? 'definition' : 'definitions'}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {onShowFewer && (
+        <TouchableOpacity onPress={onShowFewer}>
+          <Text style={toggleStyle}>Show fewer</Text>
+        </TouchableOpacity>
+      )}
+      <RelatedWords synonyms={meaning.synonyms} antonyms={meaning.antonyms} onPressWord={onPressWord} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  partOfSpeech: {
+    fontWeight: '600',
+  },
+  count: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  rtl: {
+    writingDirection: 'rtl',
+    textAlign: 'right',
+  },
+  footer: {
+    marginBottom: 4,
+  },
+  toggleText: {
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+});
@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { AudioStatusIcon } from '@/components/AudioStatusIcon';
+import { useTheme } from '@/hooks/useTheme';
+import { inferAccent, PlaybackStatus } from '@/lib/audio';
+import { Phonetic } from '@/lib/dictionary';
+
+interface PhoneticListProps {
+  phonetics: Phonetic[];
+  statusOf: (url: string) => PlaybackStatus;
+  onPlay: (url: string) => void;
+}
+
+/** Every transcription of a headword, labelled with its accent and playable where a recording exists. */
+export function PhoneticList({ phonetics, statusOf, onPlay }: PhoneticListProps) {
+  const { colors, font } = useTheme();
+
+  return (
+    <View style={styles.section}>
+      <Text style={[styles.title, { color: colors.text, fontSize: font(18) }]}>Pronunciations</Text>
+      <View style={styles.container}>
+        {phonetics.map((phonetic, index) => {
+          const accent = inferAccent(phonetic.audio);
+          return (
+            <View key={index} style={styles.item}>
+              {accent && (
+                <Text
+                  style={[
+                    styles.accentLabel,
+                    { color: colors.highlightText, backgroundColor: colors.highlight, fontSize: font(11) },
+                  ]}
+                >
+                  {accent}
+                </Text>
+              )}
+              {phonetic.text && (
+                <Text style={[styles.text, { color: colors.secondaryText, fontSize: font(14) }]}>/{phonetic.text}/</Text>
+              )}
+              {phonetic.audio && (
+                <TouchableOpacity
+                  style={[styles.audioButton, { backgroundColor: colors.accentSurface }]}
+                  onPress={() => onPlay(phonetic.audio!)}
+                  accessibilityLabel={`Play ${accent ?? 'pronunciation'}`}
+                >
+                  <AudioStatusIcon status={statusOf(phonetic.audio)} size={16} color={colors.accent} />
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+  title: {
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  text: {
+    marginRight: 8,
+  },
+  accentLabel: {
+    fontWeight: '700',
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    marginRight: 6,
+    overflow: 'hidden',
+  },
+  audioButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,24 @@
+import React from 'react';
+import { StyleProp, TouchableOpacity, ViewStyle } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+
+interface ReadAloudButtonProps {
+  speaking: boolean;
+  onPress: () => void;
+  size?: number;
+  color: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+export function ReadAloudButton({ speaking, onPress, size = 16, color, style }: ReadAloudButtonProps) {
+  return (
+    <TouchableOpacity
+      style={style}
+      onPress={onPress}
+      hitSlop={8}
+      accessibilityLabel={speaking ? 'Stop reading' : 'Read aloud'}
+    >
+      <MaterialCommunityIcons name={speaking ? 'stop-circle-outline' : 'text-to-speech'} size={size} color={color} />
+    </TouchableOpacity>
+  );
+}
@@ -0,0 +1,50 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { WordList } from '@/components/WordList';
+import { useTheme } from '@/hooks/useTheme';
+
+interface RelatedWordsProps {
+  synonyms?: string[];
+  antonyms?: string[];
+  onPressWord: (word: string) => void;
+}
+
+/** Tappable synonym and antonym rows; renders nothing when both lists are empty. */
+export function RelatedWords({ synonyms, antonyms, onPressWord }: RelatedWordsProps) {
+  const { colors, font } = useTheme();
+
+  const renderRow = (label: string, color: string, words?: string[]) =>
+    words &&
+    words.length > 0 && (
+      <View style={styles.row}>
+        <Text style={[styles.label, { color, fontSize: font(14) }]}>{label}: </Text>
+        <WordList
+          words={words}
+          style={{ color: colors.secondaryText, fontSize: font(14) }}
+          linkStyle={styles.crossReference}
+          onPressWord={onPressWord}
+        />
+      </View>
+    );
+
+  return (
+    <>
+      {renderRow('Synonyms', colors.success, synonyms)}
+      {renderRow('Antonyms', colors.error, antonyms)}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  crossReference: {
+    textDecorationLine: 'underline',
+  },
+});
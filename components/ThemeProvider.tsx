@@ -0,0 +1,39 @@
+import React, { createContext, ReactNode, useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { usePreferences } from '@/hooks/usePreferences';
+import { ColorScheme, Palette, PALETTES, resolveColorScheme } from '@/lib/theme';
+
+export interface Theme {
+  scheme: ColorScheme;
+  isDark: boolean;
+  colors: Palette;
+  fontScale: number;
+  /** A base font size adjusted by the user's font scale. */
+  font: (size: number) => number;
+}
+
+const buildTheme = (scheme: ColorScheme, fontScale: number): Theme => ({
+  scheme,
+  isDark: scheme === 'dark',
+  colors: PALETTES[scheme],
+  fontScale,
+  font: (size) => Math.round(size * fontScale),
+});
+
+export const ThemeContext = createContext<Theme>(buildTheme('light', 1));
+
+/** Resolves the theme preference against the system appearance for every screen below it. */
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const preferences = usePreferences();
+  const system = useColorScheme();
+  const scheme = resolveColorScheme(preferences.theme, system);
+  const theme = useMemo(() => buildTheme(scheme, preferences.fontScale), [scheme, preferences.fontScale]);
+
+  return (
+    <ThemeContext.Provider value={theme}>
+      <StatusBar style={theme.isDark ? 'light' : 'dark'} />
+      {children}
+    </ThemeContext.Provider>
+  );
+}
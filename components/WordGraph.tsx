@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { lookupWord, relatedWords, RelatedWordSet } from '@/lib/dictionary';
+import { normalizeTerm } from '@/lib/language';
+
+type Relation = 'synonym' | 'antonym';
+
+const RELATION_COLORS: Record<Relation, 'success' | 'error'> = {
+  synonym: 'success',
+  antonym: 'error',
+};
+
+interface RelatedWordChipsProps {
+  words: string[];
+  relation: Relation;
+  language: string;
+  /** Normalized words on the path to this row; they are shown but cannot be expanded again. */
+  path: string[];
+  onOpenWord: (word: string) => void;
+}
+
+/** A row of related words; tapping one expands its own related words underneath. */
+export function RelatedWordChips({ words, relation, language, path, onOpenWord }: RelatedWordChipsProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { colors, font } = useTheme();
+  const color = colors[RELATION_COLORS[relation]];
+
+  if (words.length === 0) return null;
+
+  return (
+    <View>
+      <View style={styles.chips}>
+        {words.map((word) => {
+          const visited = path.includes(normalizeTerm(word, language));
+          const open = expanded === word;
+          return (
+            <TouchableOpacity
+              key={word}
+              style={[styles.chip, { borderColor: color }, open && { backgroundColor: color }, visited && styles.visited]}
+              onPress={() => (visited ? onOpenWord(word) : setExpanded(open ? null : word))}
+              onLongPress={() => onOpenWord(word)}
+            >
+              <Text style={{ color: open ? colors.onAccent : colors.text, fontSize: font(14) }}>{word}</Text>
+              {!visited && (
+                <Ionicons
+                  name={open ? 'chevron-up' : 'chevron-down'}
+                  size={12}
+                  color={open ? colors.onAccent : colors.secondaryText}
+                />
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {expanded && (
+        <WordGraphNode
+          key={expanded}
+          word={expanded}
+          language={language}
+          path={[...path, normalizeTerm(expanded, language)]}
+          onOpenWord={onOpenWord}
+        />
+      )}
+    </View>
+  );
+}
+
+interface WordGraphNodeProps {
+  word: string;
+  language: string;
+  path: string[];
+  onOpenWord: (word: string) => void;
+}
+
+/** Looks a related word up and lists its own synonyms and antonyms, each expandable in turn. */
+export function WordGraphNode({ word, language, path, onOpenWord }: WordGraphNodeProps) {
+  const [related, setRelated] = useState<RelatedWordSet | null>(null);
+  const [failed, setFailed] = useState(false);
+  const { colors, font } = useTheme();
+
+  useEffect(() => {
+    let cancelled = false;
+    lookupWord(word, { language })
+      .then((result) => !cancelled && setRelated(relatedWords(result.entries, language)))
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [word, language]);
+
+  const empty = failed || (related && related.synonyms.length === 0 && related.antonyms.length === 0);
+
+  return (
+    <View style={[styles.node, { borderLeftColor: colors.highlight }]}>
+      <TouchableOpacity style={styles.nodeHeader} onPress={() => onOpenWord(word)}>
+        <Text style={[styles.nodeTitle, { color: colors.text, fontSize: font(15) }]}>{word}</Text>
+        <Ionicons name="open-outline" size={14} color={colors.accent} />
+      </TouchableOpacity>
+      {!related && !failed && <ActivityIndicator size="small" color={colors.accent} style={styles.loading} />}
+      {empty && (
+        <Text style={[styles.emptyText, { color: colors.secondaryText, fontSize: font(13) }]}>
+          {failed ? 'Could not load this word.' : 'No related words listed.'}
+        </Text>
+      )}
+      {related && (
+        <>
+          <RelatedWordChips
+            words={related.synonyms}
+            relation="synonym"
+            language={language}
+            path={path}
+            onOpenWord={onOpenWord}
+          />
+          <RelatedWordChips
+            words={related.antonyms}
+            relation="antonym"
+            language={language}
+            path={path}
+            onOpenWord={onOpenWord}
+          />
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    gap: 4,
+  },
+  visited: {
+    opacity: 0.5,
+  },
+  node: {
+    borderLeftWidth: 2,
+    paddingLeft: 10,
+    marginTop: 8,
+    marginLeft: 4,
+  },
+  nodeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  nodeTitle: {
+    fontWeight: '600',
+  },
+  loading: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+  },
+  emptyText: {
+    marginTop: 4,
+  },
+});
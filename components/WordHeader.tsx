@@ -0,0 +1,156 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
+import { AudioStatusIcon } from '@/components/AudioStatusIcon';
+import { ReadAloudButton } from '@/components/ReadAloudButton';
+import { useTheme } from '@/hooks/useTheme';
+import { EntrySource } from '@/hooks/useWordLookup';
+import { PlaybackStatus } from '@/lib/audio';
+
+type BadgeIcon = 'cloud-off-outline' | 'database-outline' | 'star-outline';
+
+const SOURCE_BADGES: Record<Exclude<EntrySource, 'network'>, { icon: BadgeIcon; label: string }> = {
+  cache: { icon: 'cloud-off-outline', label: 'cached' },
+  offline: { icon: 'database-outline', label: 'offline' },
+  saved: { icon: 'star-outline', label: 'saved' },
+};
+
+interface WordHeaderProps {
+  title: string;
+  phonetic?: string;
+  /** Where the entry came from; anything but a live lookup gets a badge. */
+  source?: EntrySource;
+  /** Whether the word is saved; leaving it out hides the share and favorite buttons. */
+  favorite?: boolean;
+  onShare?: () => void;
+  onToggleFavorite?: () => void;
+  /** Shows the thesaurus button when given. */
+  onOpenThesaurus?: () => void;
+  /** Status of the entry's recording, or null to fall back to text-to-speech. */
+  audioStatus: PlaybackStatus | null;
+  speaking: boolean;
+  onPronounce: () => void;
+}
+
+/** The headword line of an entry with its transcription, source badge and actions. */
+export function WordHeader({
+  title,
+  phonetic,
+  source,
+  favorite,
+  onShare,
+  onToggleFavorite,
+  onOpenThesaurus,
+  audioStatus,
+  speaking,
+  onPronounce,
+}: WordHeaderProps) {
+  const { colors, font } = useTheme();
+  const actionSurface = { backgroundColor: colors.accentSurface };
+
+  return (
+    <View style={styles.container}>
+      <View>
+        <View style={styles.titleRow}>
+          <Text style={[styles.title, { color: colors.text, fontSize: font(28) }]}>{title}</Text>
+          {source && source !== 'network' && (
+            <View style={[styles.badge, { backgroundColor: colors.border }]}>
+              <MaterialCommunityIcons name={SOURCE_BADGES[source].icon} size={12} color={colors.secondaryText} />
+              <Text style={[styles.badgeText, { color: colors.secondaryText, fontSize: font(12) }]}>
+                {SOURCE_BADGES[source].label}
+              </Text>
+            </View>
+          )}
+        </View>
+        {phonetic && (
+          <Text style={[styles.phonetic, { color: colors.secondaryText, fontSize: font(16) }]}>/{phonetic}/</Text>
+        )}
+      </View>
+      <View style={styles.actions}>
+        {favorite !== undefined && (
+          <>
+            <TouchableOpacity style={[styles.actionButton, actionSurface]} onPress={onShare} accessibilityLabel="Share">
+              <Ionicons name="share-social-outline" size={20} color={colors.accent} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, actionSurface, styles.actionSpacing]}
+              onPress={onToggleFavorite}
+              accessibilityLabel={favorite ? 'Remove from saved words' : 'Save word'}
+            >
+              <Ionicons name={favorite ? 'star' : 'star-outline'} size={20} color={colors.warning} />
+            </TouchableOpacity>
+          </>
+        )}
+        {onOpenThesaurus && (
+          <TouchableOpacity
+            style={[styles.actionButton, actionSurface, styles.actionSpacing]}
+            onPress={onOpenThesaurus}
+            accessibilityLabel="Open thesaurus"
+          >
+            <Ionicons name="git-network-outline" size={20} color={colors.accent} />
+          </TouchableOpacity>
+        )}
+        {audioStatus ? (
+          <TouchableOpacity
+            style={[styles.actionButton, actionSurface, styles.actionSpacing]}
+            onPress={onPronounce}
+            accessibilityLabel="Play pronunciation"
+          >
+            <AudioStatusIcon status={audioStatus} size={20} color={colors.accent} />
+          </TouchableOpacity>
+        ) : (
+          <ReadAloudButton
+            style={[styles.actionButton, actionSurface, styles.actionSpacing]}
+            speaking={speaking}
+            onPress={onPronounce}
+            size={20}
+            color={colors.accent}
+          />
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    fontWeight: 'bold',
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  badgeText: {
+    marginLeft: 4,
+  },
+  phonetic: {
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  actionSpacing: {
+    marginLeft: 8,
+  },
+  actionButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
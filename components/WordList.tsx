@@ -0,0 +1,25 @@
+import React from 'react';
+import { StyleProp, Text, TextStyle } from 'react-native';
+
+interface WordListProps {
+  words: string[];
+  style?: StyleProp<TextStyle>;
+  linkStyle?: StyleProp<TextStyle>;
+  onPressWord: (word: string) => void;
+}
+
+/** A comma-separated list of related words, each one tappable on its own. */
+export function WordList({ words, style, linkStyle, onPressWord }: WordListProps) {
+  return (
+    <Text style={style}>
+      {words.map((word, index) => (
+        <React.Fragment key={word}>
+          {index > 0 && ', '}
+          <Text style={linkStyle} onPress={() => onPressWord(word)} suppressHighlighting>
+            {word}
+          </Text>
+        </React.Fragment>
+      ))}
+    </Text>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNotes } from '@/hooks/useNotes';
+import { useTheme } from '@/hooks/useTheme';
+import { findNote, updateNote } from '@/lib/notes';
+
+interface WordNotesProps {
+  word: string;
+  language: string;
+  onPressTag: (tag: string) => void;
+}
+
+/** The user's notes, tags and own example sentences for a headword, edited in place. */
+export function WordNotes({ word, language, onPressTag }: WordNotesProps) {
+  const notes = useNotes();
+  const note = findNote(notes, word, language);
+  const [text, setText] = useState(note?.text ?? '');
+  const [newTag, setNewTag] = useState('');
+  const [newExample, setNewExample] = useState('');
+  const { colors, font } = useTheme();
+  const inputColors = { backgroundColor: colors.input, borderColor: colors.inputBorder, color: colors.text };
+  const tags = note?.tags ?? [];
+  const examples = note?.examples ?? [];
+
+  useEffect(() => {
+    setText(note?.text ?? '');
+  }, [note?.text, word, language]);
+
+  const saveText = () => {
+    if (text !== (note?.text ?? '')) updateNote(word, language, { text });
+  };
+
+  const addTag = () => {
+    if (!newTag.trim()) return;
+    updateNote(word, language, { tags: [...tags, newTag] });
+    setNewTag('');
+  };
+
+  const addExample = () => {
+    if (!newExample.trim()) return;
+    updateNote(word, language, { examples: [...examples, newExample] });
+    setNewExample('');
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: colors.text, fontSize: font(16) }]}>My notes</Text>
+      <TextInput
+        style={[styles.input, styles.noteInput, inputColors, { fontSize: font(14) }]}
+        placeholder="Add a note..."
+        placeholderTextColor={colors.placeholder}
+        value={text}
+        onChangeText={setText}
+        onBlur={saveText}
+        multiline
+      />
+
+      {/* Tags */}
+      <View style={styles.tags}>
+        {tags.map((tag) => (
+          <TouchableOpacity
+            key={tag}
+            style={[styles.tag, { backgroundColor: colors.chip }]}
+            onPress={() => onPressTag(tag)}
+          >
+            <Text style={[styles.tagText, { color: colors.chipText, fontSize: font(14) }]}>#{tag}</Text>
+            <TouchableOpacity
+              onPress={() => updateNote(word, language, { tags: tags.filter((item) => item !== tag) })}
+              hitSlop={8}
+            >
+              <Ionicons name="close" size={14} color={colors.chipText} />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))}
+        <TextInput
+          style={[styles.tagInput, { color: colors.text, fontSize: font(14) }]}
+          placeholder="+ tag"
+          placeholderTextColor={colors.placeholder}
+          value={newTag}
+          onChangeText={setNewTag}
+          onSubmitEditing={addTag}
+          autoCapitalize="none"
+          returnKeyType="done"
+        />
+      </View>
+
+      {/* Custom Examples */}
+      {examples.map((example, index) => (
+        <View key={index} style={styles.example}>
+          <Text style={[styles.exampleText, { color: colors.secondaryText, fontSize: font(14) }]}>&ldquo;{example}&rdquo;</Text>
+          <TouchableOpacity
+            onPress={() => updateNote(word, language, { examples: examples.filter((_, i) => i !== index) })}
+            hitSlop={8}
+          >
+            <Ionicons name="trash-outline" size={16} color={colors.secondaryText} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <TextInput
+        style={[styles.input, inputColors, { fontSize: font(14) }]}
+        placeholder="Add your own example sentence..."
+        placeholderTextColor={colors.placeholder}
+        value={newExample}
+        onChangeText={setNewExample}
+        onSubmitEditing={addExample}
+        returnKeyType="done"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  title: {
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  noteInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 20,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  tagText: {
+    marginRight: 4,
+  },
+  tagInput: {
+    minWidth: 80,
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  example: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  exampleText: {
+    flex: 1,
+    fontStyle: 'italic',
+    marginRight: 8,
+  },
+});
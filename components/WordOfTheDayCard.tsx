@@ -0,0 +1,81 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { DailyWord } from '@/lib/wordOfTheDay';
+
+interface WordOfTheDayCardProps {
+  daily: DailyWord;
+  onPress: () => void;
+  onBrowse: () => void;
+}
+
+export function WordOfTheDayCard({ daily, onPress, onBrowse }: WordOfTheDayCardProps) {
+  const { colors, font } = useTheme();
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.card,
+        { backgroundColor: colors.card, shadowColor: colors.cardShadow, borderLeftColor: colors.accent },
+      ]}
+      onPress={onPress}
+    >
+      <View style={styles.header}>
+        <MaterialCommunityIcons name="calendar-star" size={16} color={colors.accent} />
+        <Text style={[styles.label, { color: colors.accent, fontSize: font(12) }]}>Word of the Day</Text>
+        <TouchableOpacity onPress={onBrowse} hitSlop={8}>
+          <Text style={{ color: colors.accent, fontSize: font(13) }}>Past days</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={[styles.word, { color: colors.text, fontSize: font(22) }]}>
+        {daily.word}
+        {daily.partOfSpeech && (
+          <Text style={[styles.partOfSpeech, { color: colors.secondaryText, fontSize: font(14) }]}>
+            {' '}
+            {daily.partOfSpeech}
+          </Text>
+        )}
+      </Text>
+      {daily.definition && (
+        <Text style={[styles.definition, { color: colors.secondaryText, fontSize: font(14) }]} numberOfLines={2}>
+          {daily.definition}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  label: {
+    flex: 1,
+    marginLeft: 6,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  word: {
+    fontWeight: 'bold',
+  },
+  partOfSpeech: {
+    fontWeight: 'normal',
+    fontStyle: 'italic',
+  },
+  definition: {
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,69 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import { DefinitionItem } from '@/components/DefinitionItem';
+import { Definition } from '@/lib/dictionary';
+
+const definition: Definition = {
+  definition: 'A friendly greeting.',
+  example: 'Hello, everyone!',
+  synonyms: ['hi'],
+  antonyms: ['farewell'],
+};
+
+const renderItem = (overrides: Partial<React.ComponentProps<typeof DefinitionItem>> = {}) =>
+  render(
+    <DefinitionItem
+      definition={definition}
+      speechKey="0:0:0"
+      speakingId={null}
+      onSpeak={jest.fn()}
+      onPressWord={jest.fn()}
+      {...overrides}
+    />,
+  );
+
+describe('DefinitionItem', () => {
+  it('shows the definition, its example and related words', () => {
+    renderItem();
+
+    expect(screen.getByText('friendly')).toBeTruthy();
+    expect(screen.getByText(/Example:/)).toBeTruthy();
+    expect(screen.getByText('hi')).toBeTruthy();
+    expect(screen.getByText('farewell')).toBeTruthy();
+  });
+
+  it('looks up words tapped in the definition', () => {
+    const onPressWord = jest.fn();
+    renderItem({ onPressWord });
+
+    fireEvent.press(screen.getByText('greeting'));
+
+    expect(onPressWord).toHaveBeenCalledWith('greeting');
+  });
+
+  it('reads the definition and the example aloud separately', () => {
+    const onSpeak = jest.fn();
+    renderItem({ onSpeak });
+
+    const [readDefinition, readExample] = screen.getAllByLabelText('Read aloud');
+    fireEvent.press(readDefinition);
+    fireEvent.press(readExample);
+
+    expect(onSpeak).toHaveBeenNthCalledWith(1, 'definition:0:0:0', 'A friendly greeting.');
+    expect(onSpeak).toHaveBeenNthCalledWith(2, 'example:0:0:0', 'Hello, everyone!');
+  });
+
+  it('marks the part being read', () => {
+    renderItem({ speakingId: 'example:0:0:0' });
+
+    expect(screen.getAllByLabelText('Read aloud')).toHaveLength(1);
+    expect(screen.getByLabelText('Stop reading')).toBeTruthy();
+  });
+
+  it('leaves out the example when there is none', () => {
+    renderItem({ definition: { definition: 'A greeting.' } });
+
+    expect(screen.queryByText(/Example:/)).toBeNull();
+    expect(screen.getAllByLabelText('Read aloud')).toHaveLength(1);
+  });
+});
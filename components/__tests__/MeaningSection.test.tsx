@@ -0,0 +1,90 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import { MeaningSectionFooter, MeaningSectionHeader } from '@/components/MeaningSection';
+import { Meaning } from '@/lib/dictionary';
+
+const meaning: Meaning = {
+  partOfSpeech: 'noun',
+  definitions: [{ definition: 'A greeting.' }, { definition: 'An utterance of “hello”.' }],
+  synonyms: ['greeting'],
+  antonyms: ['goodbye'],
+};
+
+const noop = () => undefined;
+
+describe('MeaningSectionHeader', () => {
+  it('shows the part of speech and how many definitions it has', () => {
+    render(<MeaningSectionHeader meaning={meaning} collapsed={false} onToggleCollapsed={noop} />);
+
+    expect(screen.getByText('noun')).toBeTruthy();
+    expect(screen.getByText('2 definitions')).toBeTruthy();
+  });
+
+  it('toggles when pressed', () => {
+    const onToggleCollapsed = jest.fn();
+    render(<MeaningSectionHeader meaning={meaning} collapsed onToggleCollapsed={onToggleCollapsed} />);
+
+    fireEvent.press(screen.getByText('noun'));
+
+    expect(onToggleCollapsed).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('MeaningSectionFooter', () => {
+  it('offers the hidden definitions', () => {
+    const onShowAll = jest.fn();
+    render(
+      <MeaningSectionFooter
+        meaning={meaning}
+        collapsed={false}
+        hiddenCount={1}
+        onShowAll={onShowAll}
+        onPressWord={noop}
+      />,
+    );
+
+    fireEvent.press(screen.getByText('Show 1 more definition'));
+
+    expect(onShowAll).toHaveBeenCalledTimes(1);
+    expect(screen.queryByText('Show fewer')).toBeNull();
+  });
+
+  it('offers to go back to the preview once everything is shown', () => {
+    const onShowFewer = jest.fn();
+    render(
+      <MeaningSectionFooter
+        meaning={meaning}
+        collapsed={false}
+        hiddenCount={0}
+        onShowAll={noop}
+        onShowFewer={onShowFewer}
+        onPressWord={noop}
+      />,
+    );
+
+    fireEvent.press(screen.getByText('Show fewer'));
+
+    expect(onShowFewer).toHaveBeenCalledTimes(1);
+    expect(screen.queryByText(/more definition/)).toBeNull();
+  });
+
+  it('lists the related words of the whole meaning', () => {
+    const onPressWord = jest.fn();
+    render(
+      <MeaningSectionFooter meaning={meaning} collapsed={false} hiddenCount={0} onShowAll={noop} onPressWord={onPressWord} />,
+    );
+
+    fireEvent.press(screen.getByText('goodbye'));
+
+    expect(screen.getByText('Synonyms: ')).toBeTruthy();
+    expect(onPressWord).toHaveBeenCalledWith('goodbye');
+  });
+
+  it('renders nothing while collapsed', () => {
+    render(
+      <MeaningSectionFooter meaning={meaning} collapsed hiddenCount={1} onShowAll={noop} onPressWord={noop} />,
+    );
+
+    expect(screen.toJSON()).toBeNull();
+  });
+});
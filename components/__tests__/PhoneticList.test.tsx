@@ -0,0 +1,41 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import { PhoneticList } from '@/components/PhoneticList';
+import { Phonetic } from '@/lib/dictionary';
+
+const UK_AUDIO = 'https://api.dictionaryapi.dev/media/pronunciations/en/hello-uk.mp3';
+const US_AUDIO = 'https://api.dictionaryapi.dev/media/pronunciations/en/hello-us.mp3';
+
+const phonetics: Phonetic[] = [
+  { text: 'həˈləʊ', audio: UK_AUDIO },
+  { text: 'həˈloʊ', audio: US_AUDIO },
+  { text: 'hɛˈləʊ' },
+];
+
+describe('PhoneticList', () => {
+  it('labels each transcription with its accent', () => {
+    render(<PhoneticList phonetics={phonetics} statusOf={() => 'idle'} onPlay={jest.fn()} />);
+
+    expect(screen.getByText('UK')).toBeTruthy();
+    expect(screen.getByText('US')).toBeTruthy();
+    expect(screen.getByText('/hɛˈləʊ/')).toBeTruthy();
+  });
+
+  it('plays only transcriptions that have a recording', () => {
+    const onPlay = jest.fn();
+    render(<PhoneticList phonetics={phonetics} statusOf={() => 'idle'} onPlay={onPlay} />);
+
+    fireEvent.press(screen.getByLabelText('Play US'));
+
+    expect(onPlay).toHaveBeenCalledWith(US_AUDIO);
+    expect(screen.getAllByLabelText(/^Play /)).toHaveLength(2);
+  });
+
+  it('asks for the status of each recording', () => {
+    const statusOf = jest.fn(() => 'idle' as const);
+    render(<PhoneticList phonetics={phonetics} statusOf={statusOf} onPlay={jest.fn()} />);
+
+    expect(statusOf).toHaveBeenCalledWith(UK_AUDIO);
+    expect(statusOf).toHaveBeenCalledWith(US_AUDIO);
+  });
+});
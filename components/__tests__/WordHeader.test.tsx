@@ -0,0 +1,72 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import { WordHeader } from '@/components/WordHeader';
+
+const noop = () => undefined;
+
+describe('WordHeader', () => {
+  it('shows the headword and its transcription', () => {
+    render(<WordHeader title="hello" phonetic="həˈləʊ" audioStatus={null} speaking={false} onPronounce={noop} />);
+
+    expect(screen.getByText('hello')).toBeTruthy();
+    expect(screen.getByText('/həˈləʊ/')).toBeTruthy();
+  });
+
+  it('badges entries that did not come from a live lookup', () => {
+    const { rerender } = render(
+      <WordHeader title="hello" source="offline" audioStatus={null} speaking={false} onPronounce={noop} />,
+    );
+    expect(screen.getByText('offline')).toBeTruthy();
+
+    rerender(<WordHeader title="hello" source="network" audioStatus={null} speaking={false} onPronounce={noop} />);
+    expect(screen.queryByText('offline')).toBeNull();
+    expect(screen.queryByText('network')).toBeNull();
+  });
+
+  it('hides share and save unless the saved state is known', () => {
+    render(<WordHeader title="hello" audioStatus={null} speaking={false} onPronounce={noop} />);
+
+    expect(screen.queryByLabelText('Share')).toBeNull();
+    expect(screen.queryByLabelText('Save word')).toBeNull();
+    expect(screen.queryByLabelText('Open thesaurus')).toBeNull();
+  });
+
+  it('wires up its actions', () => {
+    const onShare = jest.fn();
+    const onToggleFavorite = jest.fn();
+    const onOpenThesaurus = jest.fn();
+    const onPronounce = jest.fn();
+    render(
+      <WordHeader
+        title="hello"
+        favorite
+        onShare={onShare}
+        onToggleFavorite={onToggleFavorite}
+        onOpenThesaurus={onOpenThesaurus}
+        audioStatus="idle"
+        speaking={false}
+        onPronounce={onPronounce}
+      />,
+    );
+
+    fireEvent.press(screen.getByLabelText('Share'));
+    fireEvent.press(screen.getByLabelText('Remove from saved words'));
+    fireEvent.press(screen.getByLabelText('Open thesaurus'));
+    fireEvent.press(screen.getByLabelText('Play pronunciation'));
+
+    expect(onShare).toHaveBeenCalledTimes(1);
+    expect(onToggleFavorite).toHaveBeenCalledTimes(1);
+    expect(onOpenThesaurus).toHaveBeenCalledTimes(1);
+    expect(onPronounce).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to reading the word aloud without a recording', () => {
+    const onPronounce = jest.fn();
+    render(<WordHeader title="hello" audioStatus={null} speaking onPronounce={onPronounce} />);
+
+    fireEvent.press(screen.getByLabelText('Stop reading'));
+
+    expect(screen.queryByLabelText('Play pronunciation')).toBeNull();
+    expect(onPronounce).toHaveBeenCalledTimes(1);
+  });
+});
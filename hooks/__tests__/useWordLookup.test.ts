@@ -0,0 +1,205 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { shownLookup, useWordLookup } from '@/hooks/useWordLookup';
+import { loadHistory } from '@/lib/history';
+
+const fetchMock = global.fetch as jest.Mock;
+
+const payload = (word: string) => [
+  { word, phonetics: [], meanings: [{ partOfSpeech: 'noun', definitions: [{ definition: `The meaning of ${word}.` }] }] },
+];
+
+const respond = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: { get: () => null },
+  json: () => Promise.resolve(body),
+});
+
+/** Queues a fetch that stays pending until answered and fails like the real one when aborted. */
+const pendingFetch = () => {
+  let answer!: (response: unknown) => void;
+  fetchMock.mockImplementationOnce(
+    (_url: string, { signal }: RequestInit) =>
+      new Promise((resolve, reject) => {
+        answer = resolve;
+        signal?.addEventListener('abort', () => reject(Object.assign(new Error('Aborted'), { name: 'AbortError' })));
+      }),
+  );
+  return (response: unknown) => answer(response);
+};
+
+/** Queues a fetch that ignores aborts, like a response already on its way back. */
+const lateFetch = () => {
+  let answer!: (response: unknown) => void;
+  fetchMock.mockReturnValueOnce(new Promise((resolve) => (answer = resolve)));
+  return (response: unknown) => answer(response);
+};
+
+afterEach(() => fetchMock.mockReset());
+
+describe('useWordLookup', () => {
+  it('starts idle', () => {
+    const { result } = renderHook(() => useWordLookup());
+    expect(result.current.state).toEqual({ status: 'idle' });
+  });
+
+  it('goes through loading to success', async () => {
+    const answer = pendingFetch();
+    const { result } = renderHook(() => useWordLookup());
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = result.current.search('lumen', 'en');
+    });
+    await waitFor(() => expect(result.current.state.status).toBe('loading'));
+    expect(result.current.state).toMatchObject({ term: 'lumen', language: 'en', previous: null });
+
+    await act(async () => {
+      answer(respond(payload('lumen')));
+      await pending;
+    });
+
+    expect(result.current.state).toMatchObject({ status: 'success', term: 'lumen', source: 'network' });
+    expect(shownLookup(result.current.state)?.entries[0].word).toBe('lumen');
+    expect(fetchMock.mock.calls[0][0]).toContain('/en/lumen');
+  });
+
+  it('keeps the previous entry on screen while the next one loads', async () => {
+    fetchMock.mockResolvedValueOnce(respond(payload('quire')));
+    const { result } = renderHook(() => useWordLookup());
+    await act(() => result.current.search('quire', 'en'));
+
+    pendingFetch();
+    act(() => {
+      result.current.search('quince', 'en');
+    });
+
+    await waitFor(() => expect(result.current.state.status).toBe('loading'));
+    expect(shownLookup(result.current.state)?.term).toBe('quire');
+  });
+
+  it('reports a missing word as not found', async () => {
+    fetchMock.mockResolvedValueOnce(respond({ title: 'No Definitions Found' }, 404));
+    const { result } = renderHook(() => useWordLookup());
+
+    let returned: unknown;
+    await act(async () => {
+      returned = await result.current.search('zzxq', 'en');
+    });
+
+    expect(returned).toBeNull();
+    expect(result.current.state).toMatchObject({ status: 'error', term: 'zzxq', cachedCopy: null });
+    expect(result.current.state.status === 'error' && result.current.state.error.code).toBe('not-found');
+    expect(shownLookup(result.current.state)).toBeNull();
+  });
+
+  it('reports a network failure', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Network request failed'));
+    const { result } = renderHook(() => useWordLookup());
+
+    await act(() => result.current.search('brume', 'en'));
+
+    expect(result.current.state.status === 'error' && result.current.state.error.code).toBe('network');
+  });
+
+  it('shows entries that did not come from a lookup', () => {
+    const { result } = renderHook(() => useWordLookup());
+    const entries = payload('saved');
+
+    act(() => result.current.show({ term: 'saved', language: 'en', entries, source: 'saved' }));
+
+    expect(result.current.state).toEqual({ status: 'success', term: 'saved', language: 'en', entries, source: 'saved' });
+  });
+
+  it('refreshes an offline entry in place once the network answers', async () => {
+    const answer = lateFetch();
+    const { result } = renderHook(() => useWordLookup());
+
+    await act(() => result.current.search('hello', 'en'));
+    expect(result.current.state).toMatchObject({ status: 'success', term: 'hello', source: 'offline' });
+
+    await act(async () => answer(respond(payload('hello'))));
+
+    await waitFor(() => expect(result.current.state).toMatchObject({ source: 'network' }));
+    expect(result.current.state).toMatchObject({ status: 'success', term: 'hello', language: 'en' });
+    expect(shownLookup(result.current.state)?.entries[0].meanings[0].definitions[0].definition).toBe(
+      'The meaning of hello.',
+    );
+  });
+
+  describe('with interleaved responses', () => {
+    it('ignores an earlier search that answers last', async () => {
+      const answerFirst = lateFetch();
+      const answerSecond = lateFetch();
+      const { result } = renderHook(() => useWordLookup());
+
+      let first!: Promise<unknown>;
+      let second!: Promise<unknown>;
+      act(() => {
+        first = result.current.search('fennel', 'en');
+        second = result.current.search('fescue', 'en');
+      });
+      await act(async () => {
+        answerSecond(respond(payload('fescue')));
+        await second;
+      });
+      await act(async () => {
+        answerFirst(respond(payload('fennel')));
+        expect(await first).toBeNull();
+      });
+
+      expect(result.current.state).toMatchObject({ status: 'success', term: 'fescue' });
+      const words = (await loadHistory()).map((entry) => entry.word);
+      expect(words).toContain('fescue');
+      expect(words).not.toContain('fennel');
+    });
+
+    it('ignores an earlier search that answers first', async () => {
+      const answerFirst = lateFetch();
+      const answerSecond = lateFetch();
+      const { result } = renderHook(() => useWordLookup());
+
+      let first!: Promise<unknown>;
+      let second!: Promise<unknown>;
+      act(() => {
+        first = result.current.search('gannet', 'en');
+        second = result.current.search('garnet', 'en');
+      });
+      await act(async () => {
+        answerFirst(respond(payload('gannet')));
+        expect(await first).toBeNull();
+      });
+      expect(result.current.state).toMatchObject({ status: 'loading', term: 'garnet' });
+
+      await act(async () => {
+        answerSecond(respond(payload('garnet')));
+        await second;
+      });
+      expect(result.current.state).toMatchObject({ status: 'success', term: 'garnet' });
+    });
+
+    it('keeps a later success when an earlier search fails', async () => {
+      let failFirst!: (error: Error) => void;
+      fetchMock.mockReturnValueOnce(new Promise((_, reject) => (failFirst = reject)));
+      const answerSecond = lateFetch();
+      const { result } = renderHook(() => useWordLookup());
+
+      let first!: Promise<unknown>;
+      let second!: Promise<unknown>;
+      act(() => {
+        first = result.current.search('hazel', 'en');
+        second = result.current.search('hawser', 'en');
+      });
+      await act(async () => {
+        answerSecond(respond(payload('hawser')));
+        await second;
+      });
+      await act(async () => {
+        failFirst(new TypeError('Network request failed'));
+        await first;
+      });
+
+      expect(result.current.state).toMatchObject({ status: 'success', term: 'hawser' });
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { Favorite, loadFavorites, subscribeFavorites } from '@/lib/favorites';
+
+export function useFavorites() {
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    loadFavorites().then((loaded) => mounted && setFavorites(loaded));
+    const unsubscribe = subscribeFavorites(setFavorites);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return favorites;
+}
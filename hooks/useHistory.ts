@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { HistoryEntry, loadHistory, subscribeHistory } from '@/lib/history';
+
+export function useHistory() {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    loadHistory().then((loaded) => mounted && setHistory(loaded));
+    const unsubscribe = subscribeHistory(setHistory);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return history;
+}
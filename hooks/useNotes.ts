@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { loadNotes, subscribeNotes, WordNote } from '@/lib/notes';
+
+export function useNotes() {
+  const [notes, setNotes] = useState<WordNote[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    loadNotes().then((loaded) => mounted && setNotes(loaded));
+    const unsubscribe = subscribeNotes(setNotes);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return notes;
+}
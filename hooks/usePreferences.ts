@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { getPreferences, loadPreferences, Preferences, subscribePreferences } from '@/lib/preferences';
+
+export function usePreferences() {
+  const [preferences, setPreferences] = useState<Preferences>(getPreferences);
+
+  useEffect(() => {
+    let mounted = true;
+    loadPreferences().then((loaded) => mounted && setPreferences(loaded));
+    const unsubscribe = subscribePreferences(setPreferences);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return preferences;
+}
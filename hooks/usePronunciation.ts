@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import {
+  getPlaybackState,
+  PlaybackState,
+  playPronunciation,
+  releasePronunciation,
+  resolveAudioUrl,
+  stopPronunciation,
+  subscribePlayback,
+} from '@/lib/audio';
+
+export function usePronunciation() {
+  const [playback, setPlayback] = useState<PlaybackState>(getPlaybackState);
+
+  useEffect(() => {
+    const unsubscribe = subscribePlayback(setPlayback);
+    return () => {
+      unsubscribe();
+      releasePronunciation();
+    };
+  }, []);
+
+  const statusOf = (url: string) =>
+    playback.url === resolveAudioUrl(url) ? playback.status : 'idle';
+
+  /** Plays the recording, or stops it if it is the one already playing. */
+  const toggle = (url: string) =>
+    statusOf(url) === 'playing' ? stopPronunciation() : playPronunciation(url);
+
+  return { playback, statusOf, toggle };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { loadQuizStats, QuizStats, subscribeQuizStats } from '@/lib/quiz';
+
+export function useQuizStats() {
+  const [stats, setStats] = useState<QuizStats>({ modes: {}, dayStreak: 0 });
+
+  useEffect(() => {
+    let mounted = true;
+    loadQuizStats().then((loaded) => mounted && setStats(loaded));
+    const unsubscribe = subscribeQuizStats(setStats);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return stats;
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { getSpeakingId, speak, stopSpeaking, subscribeSpeech } from '@/lib/speech';
+
+export function useSpeech() {
+  const [speakingId, setSpeakingId] = useState(getSpeakingId);
+
+  useEffect(() => {
+    const unsubscribe = subscribeSpeech(setSpeakingId);
+    return () => {
+      unsubscribe();
+      stopSpeaking();
+    };
+  }, []);
+
+  /** Reads the text aloud, or stops if this utterance is the one speaking. */
+  const toggle = (id: string, text: string, language?: string) =>
+    speakingId === id ? stopSpeaking() : speak(id, text, language);
+
+  return { speakingId, toggle };
+}
@@ -0,0 +1,26 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getOfflineIndex } from '@/lib/offline/pack';
+import { COMMON_WORDS } from '@/lib/suggestions';
+import { useFavorites } from './useFavorites';
+import { useHistory } from './useHistory';
+
+/** Known words for suggestions, most personal first: history, favorites, offline pack, bundled wordlist. */
+export function useWordCandidates() {
+  const history = useHistory();
+  const favorites = useFavorites();
+  const [packWords, setPackWords] = useState<string[]>([]);
+
+  useEffect(() => {
+    getOfflineIndex().then((index) => setPackWords(index.headwords()));
+  }, []);
+
+  return useMemo(
+    () => [
+      ...history.filter((entry) => entry.status === 'success').map((entry) => entry.word),
+      ...favorites.map((favorite) => favorite.word),
+      ...packWords,
+      ...COMMON_WORDS,
+    ],
+    [history, favorites, packWords],
+  );
+}
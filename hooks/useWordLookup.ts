@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import {
+  DictionaryError,
+  findCachedCopy,
+  lookupWord,
+  LookupResult,
+  LookupSource,
+  toDictionaryError,
+  WordData,
+} from '@/lib/dictionary';
+import { recordLookup } from '@/lib/history';
+
+export type EntrySource = LookupSource | 'saved';
+
+export interface LoadedLookup {
+  term: string;
+  language: string;
+  entries: WordData[];
+  source: EntrySource;
+}
+
+export type WordLookupState =
+  | { status: 'idle' }
+  | { status: 'loading'; term: string; language: string; previous: LoadedLookup | null }
+  | ({ status: 'success' } & LoadedLookup)
+  | { status: 'error'; term: string; language: string; error: DictionaryError; cachedCopy: LookupResult | null };
+
+type Action =
+  | { type: 'start'; term: string; language: string }
+  | { type: 'succeed'; lookup: LoadedLookup }
+  | { type: 'revalidate'; term: string; result: LookupResult }
+  | { type: 'fail'; term: string; language: string; error: DictionaryError }
+  | { type: 'cached-copy'; term: string; copy: LookupResult | null };
+
+const IDLE: WordLookupState = { status: 'idle' };
+
+/** The entry on screen: the loaded one, or the previous one while the next lookup is in flight. */
+export const shownLookup = (state: WordLookupState): LoadedLookup | null => {
+  switch (state.status) {
+    case 'success':
+      return state;
+    case 'loading':
+      return state.previous;
+    default:
+      return null;
+  }
+};
+
+const reducer = (state: WordLookupState, action: Action): WordLookupState => {
+  switch (action.type) {
+    case 'start':
+      return { status: 'loading', term: action.term, language: action.language, previous: shownLookup(state) };
+    case 'succeed':
+      return { status: 'success', ...action.lookup };
+    case 'revalidate':
+      if (state.status !== 'success' || state.term !== action.term) return state;
+      return { ...state, entries: action.result.entries, source: action.result.source };
+    case 'fail':
+      return { status: 'error', term: action.term, language: action.language, error: action.error, cachedCopy: null };
+    case 'cached-copy':
+      if (state.status !== 'error' || state.term !== action.term) return state;
+      return { ...state, cachedCopy: action.copy };
+  }
+};
+
+/**
+ * Lookup state for the home screen as an explicit idle/loading/success/error machine.
+ * Every search gets a request id; a newer search aborts the one in flight, and results,
+ * history writes and revalidations from anything but the latest request are dropped.
+ */
+export function useWordLookup() {
+  const [state, dispatch] = useReducer(reducer, IDLE);
+  const latestRequest = useRef(0);
+  const activeRequest = useRef<AbortController | null>(null);
+
+  useEffect(() => () => activeRequest.current?.abort(), []);
+
+  const begin = useCallback(() => {
+    activeRequest.current?.abort();
+    activeRequest.current = null;
+    return ++latestRequest.current;
+  }, []);
+
+  /** Resolves to the result when the lookup succeeds, or null when it fails or is replaced. */
+  const search = useCallback(async (term: string, language: string): Promise<LookupResult | null> => {
+    const requestId = begin();
+    const isLatest = () => requestId === latestRequest.current;
+    const controller = new AbortController();
+    activeRequest.current = controller;
+    dispatch({ type: 'start', term, language });
+    try {
+      const result = await lookupWord(term, {
+        language,
+        signal: controller.signal,
+        onRevalidate: (fresh) => isLatest() && dispatch({ type: 'revalidate', term, result: fresh }),
+      });
+      if (!isLatest()) return null;
+      dispatch({ type: 'succeed', lookup: { term, language, entries: result.entries, source: result.source } });
+      recordLookup(term, 'success', language);
+      return result;
+    } catch (err) {
+      const error = toDictionaryError(err, 'app', term);
+      // A newer search replaced this one; it owns the screen now.
+      if (error.code === 'aborted' || !isLatest()) return null;
+      recordLookup(term, 'failure', language);
+      dispatch({ type: 'fail', term, language, error });
+      if (error.code !== 'not-found') {
+        // Without a readable cache there is simply no offline copy to offer.
+        findCachedCopy(term, language)
+          .then((copy) => isLatest() && dispatch({ type: 'cached-copy', term, copy }))
+          .catch(() => undefined);
+      }
+      return null;
+    } finally {
+      if (isLatest()) activeRequest.current = null;
+    }
+  }, [begin]);
+
+  /** Shows entries that did not come from a lookup, such as a saved word. */
+  const show = useCallback(
+    (lookup: LoadedLookup) => {
+      begin();
+      dispatch({ type: 'succeed', lookup });
+    },
+    [begin],
+  );
+
+  const openCachedCopy = () => {
+    if (state.status !== 'error' || !state.cachedCopy) return;
+    show({ term: state.term, language: state.language, entries: state.cachedCopy.entries, source: 'cache' });
+  };
+
+  return { state, search, show, openCachedCopy };
+}
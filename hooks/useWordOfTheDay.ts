@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { calendarDay } from '@/lib/dates';
+import { pickWordOfTheDay } from '@/lib/wordOfTheDay';
+import { useFavorites } from './useFavorites';
+import { usePreferences } from './usePreferences';
+
+export function useWordOfTheDay() {
+  const preferences = usePreferences();
+  const favorites = useFavorites();
+  const today = calendarDay(Date.now());
+
+  return useMemo(
+    () => pickWordOfTheDay(today, preferences.wordOfTheDaySource, favorites),
+    [today, preferences.wordOfTheDaySource, favorites],
+  );
+}
@@ -0,0 +1,14 @@
+import { calendarDay, DAY_MS, startOfDay } from '../dates';
+
+describe('date helpers', () => {
+  it('formats the local calendar day with padded month and date', () => {
+    expect(calendarDay(new Date(2024, 2, 5, 23, 59).getTime())).toBe('2024-03-05');
+  });
+
+  it('rounds down to local midnight', () => {
+    const evening = new Date(2024, 2, 5, 18, 30).getTime();
+
+    expect(startOfDay(evening)).toBe(new Date(2024, 2, 5).getTime());
+    expect(calendarDay(startOfDay(evening) + DAY_MS)).toBe('2024-03-06');
+  });
+});
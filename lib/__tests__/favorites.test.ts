@@ -0,0 +1,31 @@
+import { WordData } from '@/lib/dictionary/types';
+import { isFavorite, loadFavorites, restoreFavorites, toggleFavorite } from '@/lib/favorites';
+
+const entry = (word: string): WordData[] => [
+  { word, phonetics: [], meanings: [{ partOfSpeech: 'noun', definitions: [{ definition: 'A word.' }] }] },
+];
+
+beforeEach(() => restoreFavorites([]));
+
+describe('favorites', () => {
+  it('keeps both of two words saved back to back, newest first', async () => {
+    await Promise.all([toggleFavorite(entry('first')), toggleFavorite(entry('second'))]);
+
+    expect((await loadFavorites()).map((favorite) => favorite.word)).toEqual(['second', 'first']);
+  });
+
+  it('applies toggles in the order they were made', async () => {
+    await Promise.all([toggleFavorite(entry('hello')), toggleFavorite(entry('Hello')), toggleFavorite(entry('hello'))]);
+
+    expect(isFavorite(await loadFavorites(), 'hello')).toBe(true);
+  });
+
+  it('saves the same word separately per language', async () => {
+    await toggleFavorite(entry('gift'), 'en');
+    await toggleFavorite(entry('gift'), 'de');
+
+    const favorites = await loadFavorites();
+    expect(isFavorite(favorites, 'gift', 'en')).toBe(true);
+    expect(isFavorite(favorites, 'gift', 'de')).toBe(true);
+  });
+});
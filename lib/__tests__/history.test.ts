@@ -0,0 +1,40 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { clearHistory, loadHistory, recordLookup, removeHistoryEntry } from '@/lib/history';
+
+const storedWords = async () =>
+  JSON.parse((await AsyncStorage.getItem('lookupHistory')) ?? '[]').map((entry: { word: string }) => entry.word);
+
+beforeEach(() => clearHistory());
+
+describe('history updates', () => {
+  it('keeps both of two lookups recorded back to back, newest first', async () => {
+    await Promise.all([recordLookup('first', 'success'), recordLookup('second', 'success')]);
+
+    expect((await loadHistory()).map((entry) => entry.word)).toEqual(['second', 'first']);
+    expect(await storedWords()).toEqual(['second', 'first']);
+  });
+
+  it('applies updates in the order they were made', async () => {
+    const recorded = recordLookup('third', 'success');
+    const removed = removeHistoryEntry({
+      word: 'third',
+      language: 'en',
+      firstLookedUpAt: 0,
+      lastLookedUpAt: 0,
+      count: 1,
+      status: 'success',
+    });
+    const again = recordLookup('fourth', 'failure');
+    await Promise.all([recorded, removed, again]);
+
+    expect((await loadHistory()).map((entry) => [entry.word, entry.status])).toEqual([['fourth', 'failure']]);
+  });
+
+  it('counts repeated lookups of the same word once', async () => {
+    await Promise.all([recordLookup('fifth', 'success'), recordLookup('Fifth', 'success')]);
+
+    const [entry, ...rest] = await loadHistory();
+    expect(rest).toHaveLength(0);
+    expect(entry).toMatchObject({ word: 'fifth', count: 2 });
+  });
+});
@@ -0,0 +1,84 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { findNote, loadNotes, notesWithTag, restoreNotes, tagCounts, updateNote, WordNote } from '@/lib/notes';
+
+const note = (word: string, tags: string[], language = 'en'): WordNote => ({
+  word,
+  language,
+  text: '',
+  tags,
+  examples: [],
+  updatedAt: 0,
+});
+
+beforeEach(() => restoreNotes([]));
+
+describe('notes', () => {
+  it('merges changes into the existing note and normalizes tags and examples', async () => {
+    await updateNote('hello', 'en', { text: 'A greeting.' });
+    await updateNote('Hello', 'en', {
+      tags: ['#Greetings', ' small talk ', 'greetings'],
+      examples: [' hi there ', ''],
+    });
+
+    expect(findNote(await loadNotes(), 'HELLO', 'en')).toMatchObject({
+      word: 'hello',
+      text: 'A greeting.',
+      tags: ['greetings', 'small-talk'],
+      examples: ['hi there'],
+    });
+  });
+
+  it('keeps notes on the same word apart by language', async () => {
+    await updateNote('gift', 'en', { text: 'A present.' });
+    await updateNote('gift', 'de', { text: 'Poison.' });
+
+    expect((await loadNotes()).map((item) => [item.language, item.text])).toEqual([
+      ['de', 'Poison.'],
+      ['en', 'A present.'],
+    ]);
+  });
+
+  it('drops a note once it is left empty', async () => {
+    await updateNote('hello', 'en', { text: 'A greeting.' });
+    await updateNote('hello', 'en', { text: '  ' });
+
+    expect(await loadNotes()).toEqual([]);
+  });
+
+  it('keeps every change made back to back, in order', async () => {
+    await Promise.all([
+      updateNote('first', 'en', { text: 'One.' }),
+      updateNote('second', 'en', { text: 'Two.' }),
+      updateNote('first', 'en', { tags: ['numbers'] }),
+    ]);
+
+    expect((await loadNotes()).map((item) => [item.word, item.text, item.tags])).toEqual([
+      ['first', 'One.', ['numbers']],
+      ['second', 'Two.', []],
+    ]);
+    expect(JSON.parse((await AsyncStorage.getItem('wordNotes'))!)).toHaveLength(2);
+  });
+});
+
+describe('tag browser', () => {
+  const notes = [
+    note('zebra', ['animals', 'stripes']),
+    note('ant', ['animals', 'insects']),
+    note('barcode', ['stripes']),
+    note('bee', ['insects']),
+    note('ape', ['animals']),
+  ];
+
+  it('counts the words per tag, most used first and ties by name', () => {
+    expect(tagCounts(notes)).toEqual([
+      { tag: 'animals', count: 3 },
+      { tag: 'insects', count: 2 },
+      { tag: 'stripes', count: 2 },
+    ]);
+  });
+
+  it('lists the words carrying a tag alphabetically', () => {
+    expect(notesWithTag(notes, 'animals').map((item) => item.word)).toEqual(['ant', 'ape', 'zebra']);
+    expect(notesWithTag(notes, 'missing')).toEqual([]);
+  });
+});
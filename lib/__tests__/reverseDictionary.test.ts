@@ -0,0 +1,53 @@
+import { WordData } from '@/lib/dictionary/types';
+import { createReverseIndex, highlightTerms } from '@/lib/reverseDictionary';
+
+const word = (headword: string, ...definitions: string[]): WordData => ({
+  word: headword,
+  phonetics: [],
+  meanings: [{ partOfSpeech: 'noun', definitions: definitions.map((definition) => ({ definition })) }],
+});
+
+const index = createReverseIndex([
+  {
+    language: 'en',
+    entries: [
+      word('claustrophobia', 'An extreme or irrational fear of confined places.'),
+      word('acrophobia', 'Extreme or irrational fear of heights.'),
+      word('fear', 'An unpleasant emotion caused by the threat of danger, pain, or harm.'),
+    ],
+  },
+  { language: 'en', entries: [word('summit', 'The highest point of a hill or mountain.', 'A meeting between heads of state.')] },
+]);
+
+describe('reverse dictionary', () => {
+  it('ranks the headword whose definition shares the most telling terms', () => {
+    const [best, ...rest] = index.search('afraid of heights, irrational fear');
+
+    expect(best).toMatchObject({ word: 'acrophobia', definition: 'Extreme or irrational fear of heights.' });
+    expect(best.terms).toHaveLength(3);
+    expect(rest.map((match) => match.word)).toContain('claustrophobia');
+  });
+
+  it('matches inflected forms of the same term', () => {
+    expect(index.search('a small place')[0].word).toBe('claustrophobia');
+    expect(index.search('fears')[0].word).toBe('acrophobia');
+  });
+
+  it('shows the best matching definition of a headword once', () => {
+    const matches = index.search('meeting of heads');
+
+    expect(matches.filter((match) => match.word === 'summit')).toHaveLength(1);
+    expect(matches[0].definition).toBe('A meeting between heads of state.');
+  });
+
+  it('finds nothing for a description made of stop words', () => {
+    expect(index.search('the of a')).toEqual([]);
+  });
+
+  it('marks the matched terms in a definition', () => {
+    const parts = highlightTerms('Fear of heights.', index.search('height fear')[0].terms);
+
+    expect(parts.filter((part) => part.match).map((part) => part.text)).toEqual(['Fear', 'heights']);
+    expect(parts.map((part) => part.text).join('')).toBe('Fear of heights.');
+  });
+});
@@ -0,0 +1,80 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DAY_MS, startOfDay } from '@/lib/dates';
+import { WordData } from '@/lib/dictionary/types';
+import {
+  buildDeck,
+  DEFAULT_EASE,
+  loadSchedules,
+  MIN_EASE,
+  newSchedule,
+  ReviewGrade,
+  saveSchedule,
+  scheduleReview,
+} from '@/lib/review';
+
+const now = new Date(2026, 2, 10, 18, 30).getTime();
+
+const reviewAll = (grades: ReviewGrade[]) =>
+  grades.reduce((schedule, grade) => scheduleReview(schedule, grade, now), newSchedule('hello', now));
+
+const entry = (word: string): WordData[] => [
+  { word, phonetics: [], meanings: [{ partOfSpeech: 'noun', definitions: [{ definition: 'A word.' }] }] },
+];
+
+beforeEach(() => AsyncStorage.clear());
+
+describe('scheduleReview', () => {
+  it('waits one day after the first recall and six after the second', () => {
+    expect(reviewAll([4])).toMatchObject({ repetitions: 1, interval: 1, ease: DEFAULT_EASE });
+    expect(reviewAll([4, 4])).toMatchObject({ repetitions: 2, interval: 6 });
+  });
+
+  it('multiplies the previous interval by the ease from the third recall on', () => {
+    expect(reviewAll([4, 4, 4]).interval).toBe(15);
+    expect(reviewAll([4, 4, 4, 4]).interval).toBe(38);
+  });
+
+  it('adjusts the ease by how easy the recall was', () => {
+    expect(reviewAll([5]).ease).toBeCloseTo(2.6);
+    expect(reviewAll([3]).ease).toBeCloseTo(2.36);
+  });
+
+  it('starts over after a failed grade', () => {
+    const lapsed = reviewAll([4, 4, 4, 1]);
+
+    expect(lapsed).toMatchObject({ repetitions: 0, interval: 1 });
+    expect(lapsed.ease).toBeCloseTo(1.96);
+  });
+
+  it('never lets the ease drop below the floor', () => {
+    expect(reviewAll([0, 0, 0, 0]).ease).toBe(MIN_EASE);
+  });
+
+  it('is due at the start of the day the interval ends on', () => {
+    const schedule = reviewAll([4, 4]);
+
+    expect(schedule.due).toBe(startOfDay(now) + 6 * DAY_MS);
+    expect(new Date(schedule.due).getHours()).toBe(0);
+    expect(schedule.lastReviewedAt).toBe(now);
+  });
+});
+
+describe('saved schedules', () => {
+  it('keeps every schedule saved back to back', async () => {
+    await Promise.all([
+      saveSchedule(scheduleReview(newSchedule('first', now), 4, now)),
+      saveSchedule(scheduleReview(newSchedule('second', now), 4, now)),
+    ]);
+
+    expect(Object.keys(await loadSchedules()).sort()).toEqual(['first', 'second']);
+  });
+
+  it('matches schedules to words regardless of case and spacing', async () => {
+    await saveSchedule(scheduleReview(newSchedule(' Hello ', now), 4, now));
+
+    const deck = buildDeck([entry('hello'), entry('HELLO')], await loadSchedules());
+
+    expect(deck).toHaveLength(1);
+    expect(deck[0].schedule?.repetitions).toBe(1);
+  });
+});
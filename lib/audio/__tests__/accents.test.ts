@@ -0,0 +1,25 @@
+import { inferAccent } from '@/lib/audio/accents';
+
+describe('inferAccent', () => {
+  it.each([
+    ['https://api.dictionaryapi.dev/media/pronunciations/en/hello-uk.mp3', 'UK'],
+    ['https://api.dictionaryapi.dev/media/pronunciations/en/hello-us.mp3', 'US'],
+    ['https://upload.wikimedia.org/wikipedia/commons/a/ab/En-au-hello.ogg', 'AU'],
+    ['https://upload.wikimedia.org/wikipedia/commons/a/ab/En-in-namaste.ogg', 'IN'],
+    ['https://example.com/audio/word-en-in.mp3', 'IN'],
+  ])('reads the accent of %s', (url, accent) => {
+    expect(inferAccent(url)).toBe(accent);
+  });
+
+  it.each([
+    'https://api.dictionaryapi.dev/media/pronunciations/en/check-in.mp3',
+    'https://api.dictionaryapi.dev/media/pronunciations/en/log_in.mp3',
+    'https://api.dictionaryapi.dev/media/pronunciations/en/hello.mp3',
+  ])('leaves %s unlabelled', (url) => {
+    expect(inferAccent(url)).toBeUndefined();
+  });
+
+  it('ignores accents in folder names', () => {
+    expect(inferAccent('https://example.com/uk/hello.mp3')).toBeUndefined();
+  });
+});
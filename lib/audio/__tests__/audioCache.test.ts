@@ -0,0 +1,32 @@
+import * as FileSystem from 'expo-file-system';
+import { clearAudioCache, getCachedAudioUri } from '@/lib/audio/audioCache';
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  getInfoAsync: jest.fn(() => Promise.resolve({ exists: false })),
+  makeDirectoryAsync: jest.fn(() => Promise.resolve()),
+  downloadAsync: jest.fn(() => Promise.resolve({ status: 200 })),
+  deleteAsync: jest.fn(() => Promise.resolve()),
+}));
+
+const makeDirectory = FileSystem.makeDirectoryAsync as jest.Mock;
+
+describe('audio cache', () => {
+  it('keeps a downloaded recording in the cache folder', async () => {
+    const uri = await getCachedAudioUri('https://example.com/hello-uk.mp3');
+
+    expect(uri).toMatch(/^file:\/\/\/cache\/pronunciations\/.+\.mp3$/);
+  });
+
+  it('makes the folder again after the cache is cleared', async () => {
+    await getCachedAudioUri('https://example.com/one.mp3');
+    makeDirectory.mockClear();
+
+    await clearAudioCache();
+    await getCachedAudioUri('https://example.com/two.mp3');
+    await getCachedAudioUri('https://example.com/three.mp3');
+
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith('file:///cache/pronunciations/', { idempotent: true });
+    expect(makeDirectory).toHaveBeenCalledTimes(1);
+  });
+});
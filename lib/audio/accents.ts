@@ -0,0 +1,21 @@
+export type Accent = 'US' | 'UK' | 'AU' | 'CA' | 'IE' | 'NZ' | 'IN';
+
+// Free Dictionary recordings come from Wikimedia and end in e.g. "hello-uk.mp3" or "en-us-hello.ogg".
+const ACCENT_PATTERNS: [RegExp, Accent][] = [
+  [/[-_/](us|en-us)[-_.]/i, 'US'],
+  [/[-_/](uk|gb|en-uk|en-gb)[-_.]/i, 'UK'],
+  [/[-_/](au|en-au)[-_.]/i, 'AU'],
+  [/[-_/](ca|en-ca)[-_.]/i, 'CA'],
+  [/[-_/](ie|en-ie)[-_.]/i, 'IE'],
+  [/[-_/](nz|en-nz)[-_.]/i, 'NZ'],
+  // A bare "in" is too common in file names ("check-in.mp3"), so India needs the full code.
+  [/[-_/]en-in[-_.]/i, 'IN'],
+];
+
+export const inferAccent = (audioUrl?: string): Accent | undefined => {
+  if (!audioUrl) return undefined;
+  const fileName = audioUrl.split('/').pop() ?? '';
+  return ACCENT_PATTERNS.find(([pattern]) => pattern.test(`/${fileName}`))?.[1];
+};
+
+export const resolveAudioUrl = (url: string) => (url.startsWith('//') ? `https:${url}` : url);
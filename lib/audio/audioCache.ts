@@ -0,0 +1,46 @@
+import * as FileSystem from 'expo-file-system';
+
+const CACHE_DIRECTORY = `${FileSystem.cacheDirectory}pronunciations/`;
+
+let directoryReady: Promise<void> | null = null;
+
+const ensureDirectory = () => {
+  if (!directoryReady) {
+    directoryReady = FileSystem.makeDirectoryAsync(CACHE_DIRECTORY, { intermediates: true }).catch(() => undefined);
+  }
+  return directoryReady;
+};
+
+// A stable, filesystem-safe name per URL; collisions only cost a re-download.
+const fileNameFor = (url: string) => {
+  let hash = 0;
+  for (let i = 0; i < url.length; i++) hash = (hash * 31 + url.charCodeAt(i)) | 0;
+  const extension = url.match(/\.(mp3|ogg|wav|m4a)(?:$|\?)/i)?.[1] ?? 'mp3';
+  return `${(hash >>> 0).toString(36)}-${url.length}.${extension}`;
+};
+
+/**
+ * Local copy of a pronunciation recording, downloading it on first use so it
+ * replays offline. Falls back to the remote URL when the download fails.
+ */
+export const getCachedAudioUri = async (url: string): Promise<string> => {
+  if (!FileSystem.cacheDirectory) return url;
+  const localUri = CACHE_DIRECTORY + fileNameFor(url);
+  try {
+    const info = await FileSystem.getInfoAsync(localUri);
+    if (info.exists) return localUri;
+    await ensureDirectory();
+    const { status } = await FileSystem.downloadAsync(url, localUri);
+    if (status >= 200 && status < 300) return localUri;
+    await FileSystem.deleteAsync(localUri, { idempotent: true });
+  } catch {
+    // Offline or storage unavailable: let the player try the network directly.
+  }
+  return url;
+};
+
+/** Deletes every downloaded recording; the folder is made again on the next download. */
+export const clearAudioCache = async () => {
+  await FileSystem.deleteAsync(CACHE_DIRECTORY, { idempotent: true });
+  directoryReady = null;
+};
@@ -0,0 +1,3 @@
+export * from './accents';
+export * from './audioCache';
+export * from './player';
@@ -0,0 +1,115 @@
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { resolveAudioUrl } from './accents';
+import { getCachedAudioUri } from './audioCache';
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'error';
+
+export interface PlaybackState {
+  url?: string;
+  status: PlaybackStatus;
+  error?: string;
+}
+
+/** `cancel` stops whatever is playing; `queue` plays after it finishes. */
+export type OverlapMode = 'cancel' | 'queue';
+
+type Listener = (state: PlaybackState) => void;
+
+let state: PlaybackState = { status: 'idle' };
+let loaded: { url: string; sound: Audio.Sound } | null = null;
+let queue: string[] = [];
+// Incremented on every new request so a slow load can tell it has been superseded.
+let generation = 0;
+let audioModeSet = false;
+const listeners = new Set<Listener>();
+
+const setState = (next: PlaybackState) => {
+  state = next;
+  listeners.forEach((listener) => listener(next));
+};
+
+export const getPlaybackState = () => state;
+
+export const subscribePlayback = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const unloadCurrent = async () => {
+  const current = loaded;
+  loaded = null;
+  if (current) await current.sound.unloadAsync().catch(() => undefined);
+};
+
+const playNext = () => {
+  const next = queue.shift();
+  if (next) start(next);
+};
+
+const handleStatus = (url: string) => (status: AVPlaybackStatus) => {
+  if (!status.isLoaded) {
+    if (status.error) setState({ url, status: 'error', error: status.error });
+    return;
+  }
+  if (status.didJustFinish && state.url === url) {
+    setState({ status: 'idle' });
+    playNext();
+  }
+};
+
+const start = async (rawUrl: string) => {
+  const url = resolveAudioUrl(rawUrl);
+  const request = ++generation;
+  setState({ url, status: 'loading' });
+  try {
+    if (!audioModeSet) {
+      await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+      audioModeSet = true;
+    }
+    if (loaded?.url === url) {
+      await loaded.sound.replayAsync();
+    } else {
+      await unloadCurrent();
+      const uri = await getCachedAudioUri(url);
+      if (request !== generation) return;
+      const { sound } = await Audio.Sound.createAsync({ uri }, {}, handleStatus(url));
+      if (request !== generation) {
+        await sound.unloadAsync();
+        return;
+      }
+      loaded = { url, sound };
+      await sound.playAsync();
+    }
+    if (request === generation) setState({ url, status: 'playing' });
+  } catch (err) {
+    if (request !== generation) return;
+    setState({ url, status: 'error', error: err instanceof Error ? err.message : 'Playback failed' });
+    playNext();
+  }
+};
+
+export const playPronunciation = async (url: string, mode: OverlapMode = 'cancel') => {
+  const busy = state.status === 'loading' || state.status === 'playing';
+  if (busy && mode === 'queue') {
+    queue.push(url);
+    return;
+  }
+  queue = [];
+  if (busy) await loaded?.sound.stopAsync().catch(() => undefined);
+  await start(url);
+};
+
+export const stopPronunciation = async () => {
+  queue = [];
+  generation++;
+  await loaded?.sound.stopAsync().catch(() => undefined);
+  setState({ status: 'idle' });
+};
+
+/** Stops playback and frees the native player, e.g. when the screen unmounts. */
+export const releasePronunciation = async () => {
+  await stopPronunciation();
+  await unloadCurrent();
+};
@@ -0,0 +1,86 @@
+import { createBackup, parseAnkiDeck, planImport, serializeAnkiDeck } from '@/lib/backup';
+import { Favorite, restoreFavorites } from '@/lib/favorites';
+import { restoreNotes, WordNote } from '@/lib/notes';
+
+const saved: Favorite = {
+  word: 'hello',
+  language: 'en',
+  savedAt: 1000,
+  entries: [
+    {
+      word: 'hello',
+      phonetic: 'həˈləʊ',
+      phonetics: [{ text: 'həˈləʊ', audio: 'https://example.com/hello-uk.mp3' }],
+      origin: 'early 19th century',
+      meanings: [
+        {
+          partOfSpeech: 'interjection',
+          definitions: [{ definition: 'Used as a greeting.', example: 'hello there', synonyms: ['hi'] }],
+        },
+      ],
+    },
+  ],
+};
+
+const deck = [
+  '#separator:tab',
+  'hello\t<i>interjection</i> Used as a greeting.\tdictionary::en',
+  'howdy\t<i>interjection</i> A friendly greeting.\tdictionary::en',
+].join('\n');
+
+const note: WordNote = {
+  word: 'hello',
+  language: 'en',
+  text: 'Said when answering the phone.',
+  tags: ['greetings'],
+  examples: [],
+  updatedAt: 1000,
+};
+
+beforeEach(() => Promise.all([restoreFavorites([saved]), restoreNotes([note])]));
+
+describe('Anki import', () => {
+  it('marks its saved words as partial', () => {
+    const parsed = parseAnkiDeck(deck);
+
+    expect(parsed.partialFavorites).toBe(true);
+    expect(parsed.backup.favorites.map((favorite) => favorite.word)).toEqual(['hello', 'howdy']);
+    expect(parsed.backup.favorites[0].entries[0].phonetics).toEqual([]);
+  });
+
+  it.each(['newest', 'overwrite'] as const)('keeps the full saved entry under the %s strategy', async (strategy) => {
+    const { backup, partialFavorites } = parseAnkiDeck(deck);
+
+    const plan = await planImport(backup, strategy, { partialFavorites });
+
+    expect(plan.favorites).toMatchObject({ added: 1, updated: 0, unchanged: 1 });
+    expect(plan.favorites.result.find((favorite) => favorite.word === 'hello')).toEqual(saved);
+  });
+
+  it('still lets full backups replace saved words', async () => {
+    const newer = { ...saved, savedAt: 2000, entries: [{ ...saved.entries[0], origin: 'revised' }] };
+
+    const plan = await planImport(createBackup({ history: [], favorites: [newer], notes: [] }), 'newest');
+
+    expect(plan.favorites.updated).toBe(1);
+    expect(plan.favorites.result[0].entries[0].origin).toBe('revised');
+  });
+
+  it('keeps the note on the device under the newest strategy', async () => {
+    const { backup, partialFavorites } = parseAnkiDeck('hello\tUsed as a greeting.<hr>Older text\tdictionary::en imported');
+
+    const plan = await planImport(backup, 'newest', { partialFavorites });
+
+    expect(plan.notes.result).toEqual([{ ...note, tags: ['greetings', 'imported'] }]);
+  });
+
+  it('round-trips the definitions of an exported deck', () => {
+    const exported = serializeAnkiDeck(createBackup({ history: [], favorites: [saved], notes: [] }));
+
+    const [favorite] = parseAnkiDeck(exported).backup.favorites;
+
+    expect(favorite.entries[0].meanings).toEqual([
+      { partOfSpeech: 'interjection', definitions: [{ definition: 'Used as a greeting.' }] },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { Meaning, WordData } from '@/lib/dictionary/types';
+import { Favorite } from '@/lib/favorites';
+import { DEFAULT_LANGUAGE, normalizeTerm } from '@/lib/language';
+import { WordNote } from '@/lib/notes';
+import { Backup, BackupError, createBackup, ParsedBackup, toFavorite, toWordNote } from './format';
+
+// Anki reads these header lines when importing a plain-text deck.
+const ANKI_HEADER = ['#separator:tab', '#html:true', '#tags column:3'];
+const LANGUAGE_TAG_PREFIX = 'dictionary::';
+const NOTE_DIVIDER = '<hr>';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+
+const stripHtml = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+const cardKey = (word: string, language: string) => `${language}:${normalizeTerm(word, language)}`;
+
+const definitionLines = (entries: WordData[]) =>
+  entries.flatMap((entry) =>
+    entry.meanings.flatMap((meaning) =>
+      meaning.definitions.map(
+        // Each definition stays on one line so the importer can split them on <br>.
+        (definition) => `<i>${escapeHtml(meaning.partOfSpeech)}</i> ${escapeHtml(definition.definition.replace(/\s+/g, ' '))}`,
+      ),
+    ),
+  );
+
+const noteHtml = (note: WordNote) =>
+  [
+    ...(note.text.trim() ? [escapeHtml(note.text.trim())] : []),
+    ...note.examples.map((example) => `<q>${escapeHtml(example)}</q>`),
+  ].join('<br>');
+
+/**
+ * One card per saved or annotated word: the headword on the front, its
+ * definitions on the back followed by the user's note and examples, and the
+ * note's tags plus a `dictionary::<language>` tag in the tags column.
+ */
+export const serializeAnkiDeck = (backup: Backup) => {
+  const cards = new Map<string, { word: string; language: string; favorite?: Favorite; note?: WordNote }>();
+  backup.favorites.forEach((favorite) => {
+    cards.set(cardKey(favorite.word, favorite.language), { word: favorite.word, language: favorite.language, favorite });
+  });
+  backup.notes.forEach((note) => {
+    const key = cardKey(note.word, note.language);
+    cards.set(key, { word: note.word, language: note.language, ...cards.get(key), note });
+  });
+
+  const lines = Array.from(cards.values()).map(({ word, language, favorite, note }) => {
+    const back = [
+      definitionLines(favorite?.entries ?? []).join('<br>'),
+      ...(note && noteHtml(note) ? [noteHtml(note)] : []),
+    ].join(NOTE_DIVIDER);
+    const tags = [`${LANGUAGE_TAG_PREFIX}${language}`, ...(note?.tags ?? [])].join(' ');
+    return [escapeHtml(word), back, tags].join('\t');
+  });
+  return [...ANKI_HEADER, ...lines].join('\n') + '\n';
+};
+
+const parseDefinitions = (html: string): Meaning[] => {
+  const meanings: Meaning[] = [];
+  html
+    .split(/<br\s*\/?>/i)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((line) => {
+      const match = line.match(/^<i>(.*?)<\/i>\s*(.*)$/i);
+      const partOfSpeech = match ? stripHtml(match[1]) || 'other' : 'other';
+      const definition = stripHtml(match ? match[2] : line);
+      if (!definition) return;
+      const meaning = meanings.find((item) => item.partOfSpeech === partOfSpeech);
+      if (meaning) meaning.definitions.push({ definition });
+      else meanings.push({ partOfSpeech, definitions: [{ definition }] });
+    });
+  return meanings;
+};
+
+/** Reads a tab-separated deck whose columns are front, back and (optionally) tags. */
+export const parseAnkiDeck = (input: string): ParsedBackup => {
+  const now = Date.now();
+  const backup = createBackup({ history: [], favorites: [], notes: [] }, now);
+  let invalid = 0;
+  const lines = input
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.startsWith('#'));
+  if (lines.length > 0 && !lines.some((line) => line.includes('\t'))) {
+    throw new BackupError('invalid', 'The deck is not tab-separated');
+  }
+
+  lines.forEach((line) => {
+    const [front = '', back = '', tagColumn = ''] = line.split('\t');
+    const word = stripHtml(front);
+    if (!word) {
+      invalid++;
+      return;
+    }
+    const tags = tagColumn.split(/\s+/).filter(Boolean);
+    const language = tags.find((tag) => tag.startsWith(LANGUAGE_TAG_PREFIX))?.slice(LANGUAGE_TAG_PREFIX.length);
+    const [definitions, ...noteParts] = back.split(NOTE_DIVIDER);
+    const noteContent = noteParts.join(NOTE_DIVIDER);
+    const examples = Array.from(noteContent.matchAll(/<q>(.*?)<\/q>/gi), (match) => stripHtml(match[1]));
+
+    const meanings = parseDefinitions(definitions);
+    const favorite =
+      meanings.length > 0
+        ? toFavorite({ word, language, entries: [{ word, phonetics: [], meanings }], savedAt: now }, now)
+        : null;
+    const note = toWordNote(
+      {
+        word,
+        language: language ?? DEFAULT_LANGUAGE,
+        text: stripHtml(noteContent.replace(/<q>.*?<\/q>/gi, '')),
+        tags: tags.filter((tag) => !tag.startsWith(LANGUAGE_TAG_PREFIX)),
+        examples,
+        // Decks carry no edit times, so a note on the device always counts as newer than its imported copy.
+        updatedAt: 0,
+      },
+      now,
+    );
+    if (favorite) backup.favorites.push(favorite);
+    if (note) backup.notes.push(note);
+    if (!favorite && !note) invalid++;
+  });
+  return { backup, invalid, partialFavorites: true };
+};
@@ -0,0 +1,177 @@
+import { Backup, BACKUP_SCHEMA_VERSION, BackupError, createBackup, ParsedBackup, toFavorite, toHistoryEntry, toWordNote } from './format';
+
+const COLUMNS = [
+  'type',
+  'word',
+  'language',
+  'created_at',
+  'updated_at',
+  'count',
+  'status',
+  'tags',
+  'note',
+  'examples',
+  'entries',
+] as const;
+
+type Column = (typeof COLUMNS)[number];
+type Row = Partial<Record<Column, string>>;
+
+const VERSION_PREFIX = '# dictionary-backup version=';
+
+const quote = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const toLine = (row: Row) => COLUMNS.map((column) => quote(row[column] ?? '')).join(',');
+
+const toIso = (time: number) => new Date(time).toISOString();
+
+const fromIso = (value: string | undefined) => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+/**
+ * One row per record. Tags are space-separated, custom examples one per line,
+ * and a saved word's entries are kept as JSON so the snapshot survives a round trip.
+ */
+export const serializeCsvBackup = (backup: Backup) => {
+  const rows: Row[] = [
+    ...backup.history.map((entry) => ({
+      type: 'history',
+      word: entry.word,
+      language: entry.language,
+      created_at: toIso(entry.firstLookedUpAt),
+      updated_at: toIso(entry.lastLookedUpAt),
+      count: String(entry.count),
+      status: entry.status,
+    })),
+    ...backup.favorites.map((favorite) => ({
+      type: 'favorite',
+      word: favorite.word,
+      language: favorite.language,
+      created_at: toIso(favorite.savedAt),
+      updated_at: toIso(favorite.savedAt),
+      entries: JSON.stringify(favorite.entries),
+    })),
+    ...backup.notes.map((note) => ({
+      type: 'note',
+      word: note.word,
+      language: note.language,
+      updated_at: toIso(note.updatedAt),
+      tags: note.tags.join(' '),
+      note: note.text,
+      examples: note.examples.join('\n'),
+    })),
+  ];
+  return [`${VERSION_PREFIX}${backup.version}`, COLUMNS.join(','), ...rows.map(toLine)].join('\n') + '\n';
+};
+
+/** Splits RFC 4180 text into rows of fields, honouring quoted commas, quotes and line breaks. */
+export const parseCsvRows = (input: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.length > 0));
+};
+
+export const parseCsvBackup = (input: string): ParsedBackup => {
+  const rows = parseCsvRows(input.replace(/^\uFEFF/, ''));
+  let version = BACKUP_SCHEMA_VERSION;
+  while (rows[0]?.[0].startsWith('#')) {
+    const line = rows.shift()!.join(',');
+    if (line.startsWith(VERSION_PREFIX)) version = Number(line.slice(VERSION_PREFIX.length));
+  }
+  if (version > BACKUP_SCHEMA_VERSION) {
+    throw new BackupError('unsupported-version', `This backup was made by a newer version of the app (schema ${version})`);
+  }
+
+  const header = rows.shift()?.map((cell) => cell.trim().toLowerCase());
+  if (!header?.includes('type') || !header.includes('word')) {
+    throw new BackupError('invalid', 'The CSV file needs at least "type" and "word" columns');
+  }
+
+  const now = Date.now();
+  const backup = createBackup({ history: [], favorites: [], notes: [] }, now);
+  let invalid = 0;
+  rows.forEach((cells) => {
+    const row: Row = {};
+    header.forEach((column, index) => {
+      row[column as Column] = cells[index];
+    });
+    const updatedAt = fromIso(row.updated_at);
+    if (row.type === 'history') {
+      const entry = toHistoryEntry(
+        {
+          word: row.word,
+          language: row.language,
+          firstLookedUpAt: fromIso(row.created_at),
+          lastLookedUpAt: updatedAt,
+          count: Number(row.count),
+          status: row.status,
+        },
+        now,
+      );
+      if (entry) backup.history.push(entry);
+      else invalid++;
+    } else if (row.type === 'favorite') {
+      let entries: unknown;
+      try {
+        entries = JSON.parse(row.entries ?? '');
+      } catch {
+        entries = undefined;
+      }
+      const favorite = toFavorite({ word: row.word, language: row.language, entries, savedAt: updatedAt }, now);
+      if (favorite) backup.favorites.push(favorite);
+      else invalid++;
+    } else if (row.type === 'note') {
+      const note = toWordNote(
+        {
+          word: row.word,
+          language: row.language,
+          text: row.note ?? '',
+          tags: (row.tags ?? '').split(/\s+/),
+          examples: (row.examples ?? '').split('\n'),
+          updatedAt,
+        },
+        now,
+      );
+      if (note) backup.notes.push(note);
+      else invalid++;
+    } else {
+      invalid++;
+    }
+  });
+  return { backup, invalid };
+};
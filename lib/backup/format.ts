@@ -0,0 +1,138 @@
+import { validateEntries } from '@/lib/dictionary/schema';
+import { Favorite } from '@/lib/favorites';
+import { HistoryEntry } from '@/lib/history';
+import { DEFAULT_LANGUAGE } from '@/lib/language';
+import { normalizeTag, WordNote } from '@/lib/notes';
+
+export const BACKUP_SCHEMA_VERSION = 1;
+
+export type BackupFormat = 'json' | 'csv' | 'anki';
+
+export interface Backup {
+  version: number;
+  exportedAt: number;
+  history: HistoryEntry[];
+  favorites: Favorite[];
+  notes: WordNote[];
+}
+
+/** A backup read from a file, with the number of records that could not be used. */
+export interface ParsedBackup {
+  backup: Backup;
+  invalid: number;
+  /** Saved words hold only their definitions, as in an Anki deck, so they never replace a copy on the device. */
+  partialFavorites?: boolean;
+}
+
+export type BackupErrorCode = 'invalid' | 'unsupported-version';
+
+export class BackupError extends Error {
+  code: BackupErrorCode;
+
+  constructor(code: BackupErrorCode, message: string) {
+    super(message);
+    this.name = 'BackupError';
+    this.code = code;
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const timestamp = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const stringList = (value: unknown) => (Array.isArray(value) ? value.filter(nonEmptyString) : []);
+
+/** Checks an exported record and fills defaults; `null` means it is unusable. */
+export const toHistoryEntry = (value: unknown, now = Date.now()): HistoryEntry | null => {
+  if (!isObject(value) || !nonEmptyString(value.word)) return null;
+  const lastLookedUpAt = timestamp(value.lastLookedUpAt, now);
+  return {
+    word: value.word.trim().normalize('NFC'),
+    language: nonEmptyString(value.language) ? value.language : DEFAULT_LANGUAGE,
+    firstLookedUpAt: timestamp(value.firstLookedUpAt, lastLookedUpAt),
+    lastLookedUpAt,
+    count: typeof value.count === 'number' && value.count > 0 ? Math.floor(value.count) : 1,
+    status: value.status === 'failure' ? 'failure' : 'success',
+  };
+};
+
+export const toFavorite = (value: unknown, now = Date.now()): Favorite | null => {
+  if (!isObject(value)) return null;
+  const { entries } = validateEntries(value.entries);
+  if (entries.length === 0) return null;
+  return {
+    word: nonEmptyString(value.word) ? value.word : entries[0].word,
+    language: nonEmptyString(value.language) ? value.language : DEFAULT_LANGUAGE,
+    entries,
+    savedAt: timestamp(value.savedAt, now),
+  };
+};
+
+export const toWordNote = (value: unknown, now = Date.now()): WordNote | null => {
+  if (!isObject(value) || !nonEmptyString(value.word)) return null;
+  const note: WordNote = {
+    word: value.word.trim(),
+    language: nonEmptyString(value.language) ? value.language : DEFAULT_LANGUAGE,
+    text: typeof value.text === 'string' ? value.text : '',
+    tags: Array.from(new Set(stringList(value.tags).map(normalizeTag).filter(Boolean))),
+    examples: stringList(value.examples).map((example) => example.trim()),
+    updatedAt: timestamp(value.updatedAt, now),
+  };
+  return note.text.trim() || note.tags.length > 0 || note.examples.length > 0 ? note : null;
+};
+
+export const createBackup = (
+  records: Pick<Backup, 'history' | 'favorites' | 'notes'>,
+  exportedAt = Date.now(),
+): Backup => ({ version: BACKUP_SCHEMA_VERSION, exportedAt, ...records });
+
+const collect = <T>(values: unknown, convert: (value: unknown) => T | null) => {
+  const list = Array.isArray(values) ? values : [];
+  const records = list.map(convert).filter((record): record is T => record !== null);
+  return { records, invalid: list.length - records.length };
+};
+
+/**
+ * Reads a JSON backup of any known schema version. Version 0 is the bare
+ * string array the first release kept as `searchHistory`.
+ */
+export const parseJsonBackup = (input: string): ParsedBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(input);
+  } catch {
+    throw new BackupError('invalid', 'The file is not valid JSON');
+  }
+
+  if (Array.isArray(data)) {
+    const now = Date.now();
+    const words = data.filter(nonEmptyString);
+    const history = words.map((word, index) => toHistoryEntry({ word, lastLookedUpAt: now - index }, now)!);
+    return { backup: createBackup({ history, favorites: [], notes: [] }, now), invalid: data.length - words.length };
+  }
+
+  if (!isObject(data)) throw new BackupError('invalid', 'The file does not contain a backup');
+  const version = typeof data.version === 'number' ? data.version : NaN;
+  if (!(version >= 1)) throw new BackupError('invalid', 'The backup has no schema version');
+  if (version > BACKUP_SCHEMA_VERSION) {
+    throw new BackupError('unsupported-version', `This backup was made by a newer version of the app (schema ${version})`);
+  }
+
+  const history = collect(data.history, (value) => toHistoryEntry(value));
+  const favorites = collect(data.favorites, (value) => toFavorite(value));
+  const notes = collect(data.notes, (value) => toWordNote(value));
+  return {
+    backup: createBackup(
+      { history: history.records, favorites: favorites.records, notes: notes.records },
+      timestamp(data.exportedAt, Date.now()),
+    ),
+    invalid: history.invalid + favorites.invalid + notes.invalid,
+  };
+};
+
+export const serializeJsonBackup = (backup: Backup) => JSON.stringify(backup, null, 2);
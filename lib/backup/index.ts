@@ -0,0 +1,53 @@
+import { loadFavorites } from '@/lib/favorites';
+import { loadHistory } from '@/lib/history';
+import { loadNotes } from '@/lib/notes';
+import { parseAnkiDeck, serializeAnkiDeck } from './anki';
+import { parseCsvBackup, serializeCsvBackup } from './csv';
+import { BackupFormat, createBackup, parseJsonBackup, ParsedBackup, serializeJsonBackup } from './format';
+
+export * from './anki';
+export * from './csv';
+export * from './format';
+export * from './merge';
+
+export const BACKUP_FORMATS: Record<BackupFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  anki: { label: 'Anki deck', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+};
+
+/** Snapshot of everything the app stores about the user, serialized in the chosen format. */
+export const exportBackup = async (format: BackupFormat, now = Date.now()) => {
+  const [history, favorites, notes] = await Promise.all([loadHistory(), loadFavorites(), loadNotes()]);
+  const backup = createBackup({ history, favorites, notes }, now);
+  const content =
+    format === 'json'
+      ? serializeJsonBackup(backup)
+      : format === 'csv'
+        ? serializeCsvBackup(backup)
+        : serializeAnkiDeck(backup);
+  const date = new Date(now).toISOString().slice(0, 10);
+  return { content, fileName: `dictionary-${date}.${BACKUP_FORMATS[format].extension}`, backup };
+};
+
+/** Guesses the format from the file extension, falling back to sniffing the content. */
+export const detectBackupFormat = (fileName: string, content: string): BackupFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'tsv' || extension === 'txt') return 'anki';
+  const firstLine = content.trimStart().split(/\r?\n/).find((line) => !line.startsWith('#')) ?? '';
+  if (/^[[{]/.test(firstLine)) return 'json';
+  return firstLine.includes('\t') ? 'anki' : 'csv';
+};
+
+export const parseBackup = (content: string, format: BackupFormat): ParsedBackup => {
+  switch (format) {
+    case 'json':
+      return parseJsonBackup(content);
+    case 'csv':
+      return parseCsvBackup(content);
+    case 'anki':
+      return parseAnkiDeck(content);
+  }
+};
@@ -0,0 +1,131 @@
+import { Favorite, loadFavorites, restoreFavorites } from '@/lib/favorites';
+import { HistoryEntry, loadHistory, restoreHistory } from '@/lib/history';
+import { normalizeTerm } from '@/lib/language';
+import { loadNotes, restoreNotes, WordNote } from '@/lib/notes';
+import { Backup } from './format';
+
+/**
+ * How a record that exists both on the device and in the import is resolved:
+ * `newest` keeps whichever changed last (combining history counts and note
+ * tags), `keep-existing` ignores the imported copy, `overwrite` replaces the
+ * device copy.
+ */
+export type ConflictStrategy = 'newest' | 'keep-existing' | 'overwrite';
+
+export interface CollectionPlan<T> {
+  added: number;
+  updated: number;
+  unchanged: number;
+  result: T[];
+}
+
+export interface ImportPlan {
+  strategy: ConflictStrategy;
+  history: CollectionPlan<HistoryEntry>;
+  favorites: CollectionPlan<Favorite>;
+  notes: CollectionPlan<WordNote>;
+}
+
+interface KeyedRecord {
+  word: string;
+  language: string;
+}
+
+const recordKey = (record: KeyedRecord) => `${record.language}:${normalizeTerm(record.word, record.language)}`;
+
+const sameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const mergeCollection = <T extends KeyedRecord>(
+  existing: T[],
+  incoming: T[],
+  strategy: ConflictStrategy,
+  updatedAt: (record: T) => number,
+  combine: (newer: T, older: T) => T,
+): CollectionPlan<T> => {
+  const byKey = new Map(existing.map((record) => [recordKey(record), record]));
+  const plan: CollectionPlan<T> = { added: 0, updated: 0, unchanged: 0, result: [] };
+
+  incoming.forEach((imported) => {
+    const key = recordKey(imported);
+    const current = byKey.get(key);
+    if (!current) {
+      byKey.set(key, imported);
+      plan.added++;
+      return;
+    }
+    let next = current;
+    if (strategy === 'overwrite') {
+      next = imported;
+    } else if (strategy === 'newest') {
+      next = updatedAt(imported) > updatedAt(current) ? combine(imported, current) : combine(current, imported);
+    }
+    if (sameRecord(next, current)) {
+      plan.unchanged++;
+    } else {
+      byKey.set(key, next);
+      plan.updated++;
+    }
+  });
+
+  plan.result = Array.from(byKey.values());
+  return plan;
+};
+
+const union = (first: string[], second: string[]) => Array.from(new Set([...first, ...second]));
+
+export interface ImportOptions {
+  /** Imported saved words are definition-only stubs; saved words already on the device are kept whatever the strategy. */
+  partialFavorites?: boolean;
+}
+
+/** Works out what importing the backup would change, without writing anything. */
+export const planImport = async (
+  backup: Backup,
+  strategy: ConflictStrategy,
+  { partialFavorites = false }: ImportOptions = {},
+): Promise<ImportPlan> => {
+  const [history, favorites, notes] = await Promise.all([loadHistory(), loadFavorites(), loadNotes()]);
+  return {
+    strategy,
+    history: mergeCollection(
+      history,
+      backup.history,
+      strategy,
+      (entry) => entry.lastLookedUpAt,
+      (newer, older) => ({
+        ...newer,
+        firstLookedUpAt: Math.min(newer.firstLookedUpAt, older.firstLookedUpAt),
+        count: Math.max(newer.count, older.count),
+      }),
+    ),
+    favorites: mergeCollection(
+      favorites,
+      backup.favorites,
+      partialFavorites ? 'keep-existing' : strategy,
+      (favorite) => favorite.savedAt,
+      (newer) => newer,
+    ),
+    notes: mergeCollection(
+      notes,
+      backup.notes,
+      strategy,
+      (note) => note.updatedAt,
+      (newer, older) => ({
+        ...newer,
+        tags: union(newer.tags, older.tags),
+        examples: union(newer.examples, older.examples),
+      }),
+    ),
+  };
+};
+
+export const hasChanges = (plan: ImportPlan) =>
+  [plan.history, plan.favorites, plan.notes].some((collection) => collection.added + collection.updated > 0);
+
+export const applyImport = async (plan: ImportPlan) => {
+  await Promise.all([
+    restoreHistory(plan.history.result),
+    restoreFavorites(plan.favorites.result),
+    restoreNotes(plan.notes.result),
+  ]);
+};
@@ -0,0 +1,61 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLookupCache } from '@/lib/cache/lookupCache';
+import { WordData } from '@/lib/dictionary/types';
+
+const entry = (word: string): WordData[] => [
+  { word, phonetics: [], meanings: [{ partOfSpeech: 'noun', definitions: [{ definition: 'A word.' }] }] },
+];
+
+const ENTRY_SIZE = JSON.stringify(entry('aa')).length;
+
+const createCache = () => {
+  let time = 0;
+  return createLookupCache({ now: () => ++time, maxBytes: ENTRY_SIZE * 2 });
+};
+
+beforeEach(() => AsyncStorage.clear());
+
+describe('lookupCache', () => {
+  it('peeks at several entries in order, with null for misses', async () => {
+    const cache = createCache();
+    await cache.set('aa', entry('aa'));
+    await cache.set('bb', entry('bb'));
+
+    const peeked = await cache.peekMany(['bb', 'zz', 'aa']);
+
+    expect(peeked.map((result) => result?.entries[0].word ?? null)).toEqual(['bb', null, 'aa']);
+  });
+
+  it('does not count a peek as a use when evicting', async () => {
+    const cache = createCache();
+    await cache.set('aa', entry('aa'));
+    await cache.set('bb', entry('bb'));
+
+    await cache.peekMany(['aa']);
+    await cache.set('cc', entry('cc'));
+
+    expect((await cache.peekMany(['aa', 'bb', 'cc'])).map((result) => result !== null)).toEqual([false, true, true]);
+  });
+
+  it('counts a get as a use when evicting', async () => {
+    const cache = createCache();
+    await cache.set('aa', entry('aa'));
+    await cache.set('bb', entry('bb'));
+
+    await cache.get('aa');
+    await cache.set('cc', entry('cc'));
+
+    expect((await cache.peekMany(['aa', 'bb', 'cc'])).map((result) => result !== null)).toEqual([true, false, true]);
+  });
+
+  it('leaves the index alone while peeking', async () => {
+    const cache = createCache();
+    await cache.set('aa', entry('aa'));
+    const setItem = AsyncStorage.setItem as jest.Mock;
+    setItem.mockClear();
+
+    await cache.peekMany(['aa', 'bb']);
+
+    expect(setItem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DAY_MS } from '@/lib/dates';
+import { WordData } from '@/lib/dictionary/types';
+
+const INDEX_KEY = 'lookupCache:index';
+const ENTRY_PREFIX = 'lookupCache:entry:';
+
+export const DEFAULT_CACHE_TTL_MS = 7 * DAY_MS;
+export const DEFAULT_CACHE_MAX_BYTES = 1024 * 1024;
+
+interface IndexRecord {
+  size: number;
+  storedAt: number;
+  lastAccess: number;
+}
+
+type CacheIndex = Record<string, IndexRecord>;
+
+export interface CachedLookup {
+  entries: WordData[];
+  storedAt: number;
+  stale: boolean;
+}
+
+export interface LookupCacheOptions {
+  ttlMs?: number;
+  maxBytes?: number;
+  now?: () => number;
+}
+
+export interface LookupCache {
+  get(key: string): Promise<CachedLookup | null>;
+  /** Reads several entries at once without counting as a use, so browsing the cache leaves eviction order alone. */
+  peekMany(keys: string[]): Promise<(CachedLookup | null)[]>;
+  set(key: string, entries: WordData[]): Promise<void>;
+  remove(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+  /** Changes the size limit, evicting least recently used entries if the cache is now over it. */
+  setMaxBytes(bytes: number): Promise<void>;
+}
+
+export const createLookupCache = ({
+  ttlMs = DEFAULT_CACHE_TTL_MS,
+  maxBytes: initialMaxBytes = DEFAULT_CACHE_MAX_BYTES,
+  now = Date.now,
+}: LookupCacheOptions = {}): LookupCache => {
+  let maxBytes = initialMaxBytes;
+
+  // Index writes are read-modify-write, so they are chained to avoid lost updates.
+  let queue: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const readIndex = async (): Promise<CacheIndex> => {
+    const raw = await AsyncStorage.getItem(INDEX_KEY);
+    return raw ? JSON.parse(raw) : {};
+  };
+
+  const writeIndex = (index: CacheIndex) => AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+
+  const totalSize = (index: CacheIndex) => Object.values(index).reduce((sum, record) => sum + record.size, 0);
+
+  const evict = async (index: CacheIndex) => {
+    const byAge = Object.keys(index).sort((a, b) => index[a].lastAccess - index[b].lastAccess);
+    const evicted: string[] = [];
+    while (totalSize(index) > maxBytes && byAge.length > 0) {
+      const key = byAge.shift()!;
+      delete index[key];
+      evicted.push(ENTRY_PREFIX + key);
+    }
+    if (evicted.length > 0) await AsyncStorage.multiRemove(evicted);
+  };
+
+  const get = (key: string) =>
+    serialize(async (): Promise<CachedLookup | null> => {
+      const index = await readIndex();
+      const record = index[key];
+      if (!record) return null;
+      const raw = await AsyncStorage.getItem(ENTRY_PREFIX + key);
+      if (!raw) {
+        delete index[key];
+        await writeIndex(index);
+        return null;
+      }
+      record.lastAccess = now();
+      await writeIndex(index);
+      return { entries: JSON.parse(raw), storedAt: record.storedAt, stale: now() - record.storedAt > ttlMs };
+    });
+
+  const peekMany = (keys: string[]) =>
+    serialize(async (): Promise<(CachedLookup | null)[]> => {
+      const index = await readIndex();
+      const present = keys.filter((key) => index[key]);
+      const stored = new Map(await AsyncStorage.multiGet(present.map((key) => ENTRY_PREFIX + key)));
+      return keys.map((key) => {
+        const record = index[key];
+        const raw = record && stored.get(ENTRY_PREFIX + key);
+        if (!raw) return null;
+        return { entries: JSON.parse(raw), storedAt: record.storedAt, stale: now() - record.storedAt > ttlMs };
+      });
+    });
+
+  const set = (key: string, entries: WordData[]) =>
+    serialize(async () => {
+      const payload = JSON.stringify(entries);
+      if (payload.length > maxBytes) return;
+      const index = await readIndex();
+      const timestamp = now();
+      index[key] = { size: payload.length, storedAt: timestamp, lastAccess: timestamp };
+      await AsyncStorage.setItem(ENTRY_PREFIX + key, payload);
+      await evict(index);
+      await writeIndex(index);
+    });
+
+  const remove = (key: string) =>
+    serialize(async () => {
+      const index = await readIndex();
+      delete index[key];
+      await AsyncStorage.removeItem(ENTRY_PREFIX + key);
+      await writeIndex(index);
+    });
+
+  const clear = () =>
+    serialize(async () => {
+      const index = await readIndex();
+      await AsyncStorage.multiRemove([INDEX_KEY, ...Object.keys(index).map((key) => ENTRY_PREFIX + key)]);
+    });
+
+  const size = () => serialize(async () => totalSize(await readIndex()));
+
+  const setMaxBytes = (bytes: number) =>
+    serialize(async () => {
+      maxBytes = bytes;
+      const index = await readIndex();
+      if (totalSize(index) <= maxBytes) return;
+      await evict(index);
+      await writeIndex(index);
+    });
+
+  return { get, peekMany, set, remove, clear, size, setMaxBytes };
+};
+
+export const lookupCache = createLookupCache();
@@ -0,0 +1,14 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Local calendar date of a timestamp, `YYYY-MM-DD`. */
+export const calendarDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/** Local midnight at the start of the timestamp's day. */
+export const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
@@ -0,0 +1,74 @@
+import { outlineEntries, partsOfSpeech } from '../outline';
+import { Meaning, WordData } from '../types';
+
+const meaning = (partOfSpeech: string, count: number): Meaning => ({
+  partOfSpeech,
+  definitions: Array.from({ length: count }, (_, index) => ({ definition: `${partOfSpeech} ${index + 1}` })),
+});
+
+const entries: WordData[] = [
+  { word: 'run', phonetics: [], meanings: [meaning('verb', 5), meaning('noun', 2), meaning('verb', 1)] },
+  { word: 'run', phonetics: [], meanings: [meaning('noun', 4)] },
+];
+
+const none = new Set<string>();
+const all = { partOfSpeech: null, collapsed: none, expanded: none };
+
+describe('outlineEntries', () => {
+  it('makes one section per meaning, in list order, for the jump links', () => {
+    const sections = outlineEntries(entries, all);
+
+    expect(sections.map((section) => section.key)).toEqual(['0:0', '0:1', '0:2', '1:0']);
+    expect(sections.map((section) => [section.firstOfEntry, section.lastOfEntry])).toEqual([
+      [true, false],
+      [false, false],
+      [false, true],
+      [true, true],
+    ]);
+  });
+
+  it('keeps only the chosen part of speech, with the original indices', () => {
+    const sections = outlineEntries(entries, { ...all, partOfSpeech: 'noun' });
+
+    expect(sections.map((section) => section.key)).toEqual(['0:1', '1:0']);
+    expect(sections.every((section) => section.firstOfEntry && section.lastOfEntry)).toBe(true);
+  });
+
+  it('drops entries with nothing left after filtering', () => {
+    const sections = outlineEntries(entries, { ...all, partOfSpeech: 'verb' });
+
+    expect(sections.map((section) => section.entryIndex)).toEqual([0, 0]);
+  });
+
+  it('shows the first definitions and counts the rest', () => {
+    const [verb, noun] = outlineEntries(entries, { ...all, previewCount: 2 });
+
+    expect(verb.data.map((definition) => definition.definition)).toEqual(['verb 1', 'verb 2']);
+    expect(verb.hiddenCount).toBe(3);
+    expect(noun.hiddenCount).toBe(0);
+  });
+
+  it('shows every definition of an expanded section and none of a collapsed one', () => {
+    const sections = outlineEntries(entries, { ...all, expanded: new Set(['0:0']), collapsed: new Set(['1:0']) });
+
+    expect(sections[0]).toMatchObject({ hiddenCount: 0, collapsed: false });
+    expect(sections[0].data).toHaveLength(5);
+    expect(sections[3]).toMatchObject({ data: [], hiddenCount: 0, collapsed: true });
+  });
+
+  it('keys definition rows by position in the entry, whatever the filter', () => {
+    const key = (partOfSpeech: string | null) => {
+      const section = outlineEntries(entries, { ...all, partOfSpeech }).find((item) => item.key === '1:0')!;
+      return section.keyExtractor(section.data[1], 1);
+    };
+
+    expect(key(null)).toBe('1:0:noun:1');
+    expect(key('noun')).toBe(key(null));
+  });
+});
+
+describe('partsOfSpeech', () => {
+  it('lists each part of speech once, in order of first appearance', () => {
+    expect(partsOfSpeech(entries)).toEqual(['verb', 'noun']);
+  });
+});
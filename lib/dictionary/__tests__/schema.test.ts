@@ -0,0 +1,124 @@
+import complete from '../__fixtures__/complete.json';
+import missingFields from '../__fixtures__/missing-fields.json';
+import noMeanings from '../__fixtures__/no-meanings.json';
+import nonStringSynonyms from '../__fixtures__/non-string-synonyms.json';
+import wrongTypes from '../__fixtures__/wrong-types.json';
+import { DictionaryError } from '../errors';
+import { createFreeDictionaryProvider } from '../providers/freeDictionary';
+import { validateEntries } from '../schema';
+
+describe('validateEntries', () => {
+  it('keeps a well-formed entry as it is', () => {
+    const { entries, issues } = validateEntries(complete);
+
+    expect(issues).toEqual([]);
+    expect(entries).toHaveLength(1);
+    const [entry] = entries;
+    expect(entry.sourceUrls).toEqual(['https://en.wiktionary.org/wiki/hello']);
+    expect(entry.license).toEqual({ name: 'CC BY-SA 3.0', url: 'https://creativecommons.org/licenses/by-sa/3.0' });
+    expect(entry.phonetics[0].license).toEqual({
+      name: 'BY 3.0 US',
+      url: 'https://creativecommons.org/licenses/by/3.0/us',
+    });
+    expect(entry.phonetics[1]).toEqual({ text: 'həˈloʊ' });
+    expect(entry.meanings[0]).toMatchObject({ partOfSpeech: 'noun', synonyms: ['greeting'], antonyms: ['goodbye'] });
+    expect(entry.meanings[0].definitions[0].synonyms).toBeUndefined();
+    expect(entry.meanings[1].definitions[0]).toMatchObject({ synonyms: ['hi', 'howdy'], antonyms: ['bye'] });
+  });
+
+  it('fills in missing arrays and drops entries without a headword or meanings', () => {
+    const { entries, issues } = validateEntries(missingFields);
+
+    expect(entries).toEqual([
+      { word: 'bare', phonetics: [], meanings: [{ partOfSpeech: 'other', definitions: [{ definition: 'Without covering.' }] }] },
+    ]);
+    expect(issues).toEqual([
+      { path: '[1]', message: 'entry has no usable meanings' },
+      { path: '[2]', message: 'entry has no headword' },
+    ]);
+  });
+
+  it('repairs fields of the wrong type', () => {
+    const { entries, issues } = validateEntries(wrongTypes);
+
+    expect(entries).toEqual([
+      {
+        word: 'tangle',
+        phonetics: [],
+        meanings: [{ partOfSpeech: 'verb', definitions: [{ definition: 'To twist together.' }] }],
+      },
+    ]);
+    expect(issues).toEqual([
+      { path: '[0].meanings[0]', message: 'expected a meaning object' },
+      { path: '[0].meanings[1].definitions', message: 'expected an array' },
+      { path: '[0].meanings[1]', message: 'meaning has no usable definitions' },
+      { path: '[0].meanings[2].definitions[0]', message: 'definition text is missing' },
+      { path: '[0].meanings[2].definitions[1]', message: 'definition text is missing' },
+      { path: '[0].meanings[2].synonyms', message: 'expected an array' },
+      { path: '[0].phonetics', message: 'expected an array' },
+      { path: '[0].sourceUrls', message: 'expected an array' },
+      { path: '[1]', message: 'entry has no headword' },
+      { path: '[2]', message: 'entry has no headword' },
+    ]);
+  });
+
+  it('drops related words that are not strings', () => {
+    const { entries, issues } = validateEntries(nonStringSynonyms);
+
+    const [meaning] = entries[0].meanings;
+    expect(meaning.definitions[0]).toMatchObject({ synonyms: ['fast', 'swift'], antonyms: ['slow'] });
+    expect(meaning.synonyms).toEqual(['brisk']);
+    expect(meaning.antonyms).toBeUndefined();
+    expect(issues).toEqual([
+      { path: '[0].meanings[0].definitions[0].synonyms', message: 'dropped non-string items' },
+      { path: '[0].meanings[0].definitions[0].antonyms', message: 'dropped non-string items' },
+      { path: '[0].meanings[0].synonyms', message: 'dropped non-string items' },
+    ]);
+  });
+
+  it('drops an entry whose meanings were all unusable', () => {
+    const { entries, issues } = validateEntries(noMeanings);
+
+    expect(entries).toEqual([]);
+    expect(issues).toEqual([
+      { path: '[0].meanings[0]', message: 'meaning has no usable definitions' },
+      { path: '[0].meanings[1]', message: 'meaning has no usable definitions' },
+      { path: '[0]', message: 'entry has no usable meanings' },
+    ]);
+  });
+
+  it('rejects a payload that is not a list', () => {
+    expect(validateEntries({ title: 'No Definitions Found' })).toEqual({
+      entries: [],
+      issues: [{ path: '', message: 'expected an array of entries' }],
+    });
+  });
+});
+
+describe('free dictionary provider', () => {
+  const fetchMock = global.fetch as jest.Mock;
+  const respond = (body: unknown) => ({ ok: true, status: 200, json: () => Promise.resolve(body) });
+
+  afterEach(() => fetchMock.mockReset());
+
+  it('passes repairs to its issue handler', async () => {
+    const onValidationIssues = jest.fn();
+    fetchMock.mockResolvedValueOnce(respond(nonStringSynonyms));
+    const provider = createFreeDictionaryProvider({ onValidationIssues });
+
+    const entries = await provider.lookup('quick');
+
+    expect(entries[0].word).toBe('quick');
+    expect(onValidationIssues).toHaveBeenCalledWith(expect.arrayContaining([expect.any(Object)]), 'quick');
+  });
+
+  it('reports a headword without meanings as not found', async () => {
+    fetchMock.mockResolvedValueOnce(respond(noMeanings));
+    const provider = createFreeDictionaryProvider({ onValidationIssues: jest.fn() });
+
+    const lookup = provider.lookup('phantom');
+
+    await expect(lookup).rejects.toBeInstanceOf(DictionaryError);
+    await expect(lookup).rejects.toMatchObject({ code: 'not-found' });
+  });
+});
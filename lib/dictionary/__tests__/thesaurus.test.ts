@@ -0,0 +1,89 @@
+import { buildThesaurus, relatedWords } from '../thesaurus';
+import { WordData } from '../types';
+
+const bright: WordData[] = [
+  {
+    word: 'bright',
+    phonetics: [],
+    meanings: [
+      {
+        partOfSpeech: 'adjective',
+        definitions: [
+          { definition: 'Giving out much light.', synonyms: ['shining', 'brilliant'], antonyms: ['dim'] },
+          { definition: 'Intelligent and quick-witted.', synonyms: ['clever', 'Brilliant'], antonyms: ['dull'] },
+          { definition: 'Vivid in colour.' },
+        ],
+        synonyms: ['vivid', 'shining'],
+        antonyms: ['dark'],
+      },
+      {
+        partOfSpeech: 'adverb',
+        definitions: [{ definition: 'Brightly.', synonyms: ['brilliantly', 'BRIGHT'] }],
+      },
+    ],
+  },
+  // A second entry for the same word, as some sources split homographs.
+  {
+    word: 'bright',
+    phonetics: [],
+    meanings: [
+      {
+        partOfSpeech: 'adjective',
+        definitions: [{ definition: 'Cheerful and lively.', synonyms: ['cheerful', 'clever'] }],
+        synonyms: ['dim'],
+      },
+    ],
+  },
+];
+
+describe('buildThesaurus', () => {
+  it('groups the words by part of speech with a sense per definition that lists any', () => {
+    expect(buildThesaurus(bright)).toEqual([
+      {
+        partOfSpeech: 'adjective',
+        senses: [
+          { definition: 'Giving out much light.', synonyms: ['shining', 'brilliant'], antonyms: ['dim'] },
+          { definition: 'Intelligent and quick-witted.', synonyms: ['clever'], antonyms: ['dull'] },
+          { definition: 'Cheerful and lively.', synonyms: ['cheerful'], antonyms: [] },
+          { definition: undefined, synonyms: ['vivid'], antonyms: ['dark'] },
+        ],
+      },
+      {
+        partOfSpeech: 'adverb',
+        senses: [{ definition: 'Brightly.', synonyms: ['brilliantly'], antonyms: [] }],
+      },
+    ]);
+  });
+
+  it('lists each word once per part of speech across entries, whatever its case', () => {
+    const [adjective] = buildThesaurus(bright);
+    const words = adjective.senses.flatMap((sense) => [...sense.synonyms, ...sense.antonyms]);
+
+    expect(words).toEqual(Array.from(new Set(words.map((word) => word.toLowerCase()))));
+  });
+
+  it('leaves out the headword', () => {
+    const [, adverb] = buildThesaurus(bright);
+
+    expect(adverb.senses[0].synonyms).not.toContain('BRIGHT');
+  });
+
+  it('skips entries without related words', () => {
+    const plain: WordData = {
+      word: 'light',
+      phonetics: [],
+      meanings: [{ partOfSpeech: 'noun', definitions: [{ definition: 'Brightness.' }] }],
+    };
+
+    expect(buildThesaurus([plain])).toEqual([]);
+  });
+});
+
+describe('relatedWords', () => {
+  it('flattens every group into one deduplicated set', () => {
+    expect(relatedWords(bright)).toEqual({
+      synonyms: ['shining', 'brilliant', 'clever', 'cheerful', 'vivid', 'brilliantly'],
+      antonyms: ['dim', 'dull', 'dark'],
+    });
+  });
+});
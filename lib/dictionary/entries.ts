@@ -0,0 +1,63 @@
+import { Meaning, Phonetic, WordData } from './types';
+
+const SUPERSCRIPT_DIGITS = ['⁰', '¹', '²', '³', '⁴', '⁵', '⁶', '⁷', '⁸', '⁹'];
+
+export const toSuperscript = (value: number) =>
+  String(value)
+    .split('')
+    .map((digit) => SUPERSCRIPT_DIGITS[Number(digit)])
+    .join('');
+
+/** Label for the nth homograph (1-based), e.g. "bank²"; unnumbered when there is only one entry. */
+export const homographLabel = (word: string, index: number, total: number) =>
+  total > 1 ? `${word}${toSuperscript(index + 1)}` : word;
+
+const dedupePhonetics = (phonetics: Phonetic[]) => {
+  const seen = new Set<string>();
+  return phonetics.filter((p) => {
+    const key = `${p.text ?? ''}|${p.audio ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const mergeWords = (first?: string[], second?: string[]) =>
+  first || second ? Array.from(new Set([...(first ?? []), ...(second ?? [])])) : undefined;
+
+/**
+ * Collapses homograph entries into one, concatenating the definitions of
+ * meanings that share a part of speech. Order follows first appearance.
+ */
+export const mergeEntries = (entries: WordData[]): WordData[] => {
+  if (entries.length <= 1) return entries;
+
+  const meanings: Meaning[] = [];
+  entries.forEach((entry) => {
+    entry.meanings.forEach((meaning) => {
+      const existing = meanings.find((m) => m.partOfSpeech === meaning.partOfSpeech);
+      if (existing) {
+        existing.definitions = [...existing.definitions, ...meaning.definitions];
+        existing.synonyms = mergeWords(existing.synonyms, meaning.synonyms);
+        existing.antonyms = mergeWords(existing.antonyms, meaning.antonyms);
+      } else {
+        meanings.push({ ...meaning, definitions: [...meaning.definitions] });
+      }
+    });
+  });
+
+  const sourceUrls = Array.from(new Set(entries.flatMap((entry) => entry.sourceUrls ?? [])));
+  const origins = entries.map((entry) => entry.origin).filter((origin): origin is string => !!origin);
+
+  return [
+    {
+      word: entries[0].word,
+      phonetic: entries.find((entry) => entry.phonetic)?.phonetic,
+      phonetics: dedupePhonetics(entries.flatMap((entry) => entry.phonetics)),
+      origin: origins.length > 0 ? origins.join('\n\n') : undefined,
+      meanings,
+      sourceUrls: sourceUrls.length > 0 ? sourceUrls : undefined,
+      license: entries.find((entry) => entry.license)?.license,
+    },
+  ];
+};
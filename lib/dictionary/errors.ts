@@ -0,0 +1,75 @@
+export type DictionaryErrorCode =
+  | 'not-found'
+  | 'network'
+  | 'timeout'
+  | 'rate-limited'
+  | 'server'
+  | 'parse'
+  | 'aborted'
+  | 'unknown';
+
+interface DictionaryErrorDetails {
+  status?: number;
+  /** Seconds to wait before retrying, from a `Retry-After` header. */
+  retryAfter?: number;
+}
+
+export class DictionaryError extends Error {
+  code: DictionaryErrorCode;
+  providerId: string;
+  term: string;
+  status?: number;
+  retryAfter?: number;
+
+  constructor(
+    code: DictionaryErrorCode,
+    providerId: string,
+    term: string,
+    message?: string,
+    details: DictionaryErrorDetails = {},
+  ) {
+    super(message ?? `${code}: ${term}`);
+    this.name = 'DictionaryError';
+    this.code = code;
+    this.providerId = providerId;
+    this.term = term;
+    this.status = details.status;
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+export const isDictionaryError = (error: unknown): error is DictionaryError =>
+  error instanceof DictionaryError;
+
+export const toDictionaryError = (error: unknown, providerId: string, term: string): DictionaryError => {
+  if (isDictionaryError(error)) return error;
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new DictionaryError('aborted', providerId, term, error.message);
+  }
+  if (error instanceof SyntaxError) {
+    return new DictionaryError('parse', providerId, term, error.message);
+  }
+  if (error instanceof TypeError) {
+    return new DictionaryError('network', providerId, term, error.message);
+  }
+  return new DictionaryError('unknown', providerId, term, error instanceof Error ? error.message : undefined);
+};
+
+/** Maps a non-2xx HTTP response onto the error taxonomy. */
+export const errorFromResponse = (response: Response, providerId: string, term: string): DictionaryError => {
+  const { status } = response;
+  if (status === 404) return new DictionaryError('not-found', providerId, term, undefined, { status });
+  if (status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    return new DictionaryError('rate-limited', providerId, term, `HTTP ${status}`, {
+      status,
+      retryAfter: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined,
+    });
+  }
+  if (status >= 500) return new DictionaryError('server', providerId, term, `HTTP ${status}`, { status });
+  return new DictionaryError('unknown', providerId, term, `HTTP ${status}`, { status });
+};
+
+/** Errors worth retrying as-is; the rest need a different term or a different source. */
+export const isRetryable = (error: DictionaryError) =>
+  ['network', 'timeout', 'rate-limited', 'server', 'parse'].includes(error.code);
@@ -0,0 +1,12 @@
+export * from './entries';
+export * from './errors';
+export * from './lookup';
+export * from './outline';
+export * from './registry';
+export * from './request';
+export * from './schema';
+export * from './thesaurus';
+export * from './types';
+export { createFreeDictionaryProvider } from './providers/freeDictionary';
+export { createMockServerProvider } from './providers/mockServer';
+export { createOfflineProvider } from './providers/offline';
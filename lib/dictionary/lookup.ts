@@ -0,0 +1,105 @@
+import { LookupCache, lookupCache } from '@/lib/cache/lookupCache';
+import { findFavorite } from '@/lib/favorites';
+import { DEFAULT_LANGUAGE, normalizeTerm } from '@/lib/language';
+import { getActiveProvider, getProvider, listProviders } from './registry';
+import { DictionaryProvider, LookupOptions, WordData } from './types';
+
+export type LookupSource = 'network' | 'cache' | 'offline';
+
+export interface LookupResult {
+  entries: WordData[];
+  source: LookupSource;
+  storedAt?: number;
+}
+
+export interface WordLookupOptions extends LookupOptions {
+  provider?: DictionaryProvider;
+  offlineProvider?: DictionaryProvider;
+  cache?: LookupCache;
+  /** Fetch the online entry in the background when the offline pack already answered. Defaults to true. */
+  enrich?: boolean;
+  /** Called with newer entries once a background revalidation or enrichment finishes. */
+  onRevalidate?: (result: LookupResult) => void;
+}
+
+export const cacheKey = (providerId: string, term: string, language = DEFAULT_LANGUAGE) =>
+  `${providerId}:${language}:${normalizeTerm(term, language)}`;
+
+/**
+ * Fresh cache hits skip the network; stale hits are returned immediately and
+ * refreshed in the background, so previously viewed words still open offline.
+ */
+const resolveOnline = async (
+  term: string,
+  { provider, cache, language, signal, onRevalidate }: Required<Pick<WordLookupOptions, 'provider' | 'cache'>> & WordLookupOptions,
+): Promise<LookupResult> => {
+  const key = cacheKey(provider.id, term, language);
+  const cached = await cache.get(key);
+
+  if (cached && !cached.stale) {
+    return { entries: cached.entries, source: 'cache', storedAt: cached.storedAt };
+  }
+
+  if (cached) {
+    provider
+      .lookup(term, { language, signal })
+      .then(async (entries) => {
+        await cache.set(key, entries);
+        onRevalidate?.({ entries, source: 'network' });
+      })
+      .catch(() => undefined);
+    return { entries: cached.entries, source: 'cache', storedAt: cached.storedAt };
+  }
+
+  const entries = await provider.lookup(term, { language, signal });
+  await cache.set(key, entries);
+  return { entries, source: 'network' };
+};
+
+/**
+ * Resolves a term offline-first: the installed pack answers when it knows
+ * the word, and the online provider (behind the lookup cache) is used as an
+ * optional enrichment layer or when the pack has no entry.
+ */
+export const lookupWord = async (term: string, options: WordLookupOptions = {}): Promise<LookupResult> => {
+  const {
+    provider = getActiveProvider(),
+    offlineProvider = getProvider('offline'),
+    cache = lookupCache,
+    enrich = true,
+    language,
+    onRevalidate,
+  } = options;
+  const online = { ...options, provider, cache };
+
+  if (provider.id !== offlineProvider.id) {
+    const local = await offlineProvider.lookup(term, { language }).catch(() => null);
+    if (local) {
+      if (enrich) {
+        resolveOnline(term, online)
+          .then((result) => onRevalidate?.(result))
+          .catch(() => undefined);
+      }
+      return { entries: local, source: 'offline' };
+    }
+  }
+
+  return resolveOnline(term, online);
+};
+
+/**
+ * Any stored copy of a word for when the live lookup failed: a cache entry
+ * from another provider, or the snapshot kept with a bookmark.
+ */
+export const findCachedCopy = async (
+  term: string,
+  language = DEFAULT_LANGUAGE,
+  cache: LookupCache = lookupCache,
+): Promise<LookupResult | null> => {
+  for (const provider of listProviders()) {
+    const cached = await cache.get(cacheKey(provider.id, term, language));
+    if (cached) return { entries: cached.entries, source: 'cache', storedAt: cached.storedAt };
+  }
+  const favorite = await findFavorite(term, language);
+  return favorite ? { entries: favorite.entries, source: 'cache', storedAt: favorite.savedAt } : null;
+};
@@ -0,0 +1,72 @@
+import { Definition, Meaning, WordData } from './types';
+
+/** Definitions shown per meaning until the user asks for the rest. */
+export const PREVIEW_DEFINITIONS = 3;
+
+export interface OutlineSection {
+  /** `<entryIndex>:<meaningIndex>`, stable while the entries are. */
+  key: string;
+  entryIndex: number;
+  meaningIndex: number;
+  meaning: Meaning;
+  /** The first and last sections shown for an entry carry its header and its trailing details. */
+  firstOfEntry: boolean;
+  lastOfEntry: boolean;
+  collapsed: boolean;
+  /** Definitions held back by the preview limit. */
+  hiddenCount: number;
+  /** The definitions to render, in order. */
+  data: Definition[];
+  /** Row keys built from the entry, meaning and definition indices and the part of speech, so filtering keeps them. */
+  keyExtractor: (definition: Definition, index: number) => string;
+}
+
+export interface OutlineOptions {
+  /** Only meanings with this part of speech are kept; null keeps all. */
+  partOfSpeech: string | null;
+  collapsed: ReadonlySet<string>;
+  /** Sections showing every definition instead of the preview. */
+  expanded: ReadonlySet<string>;
+  previewCount?: number;
+}
+
+/** Distinct parts of speech across the entries, in order of first appearance. */
+export const partsOfSpeech = (entries: WordData[]) =>
+  Array.from(new Set(entries.flatMap((entry) => entry.meanings.map((meaning) => meaning.partOfSpeech))));
+
+/**
+ * Flattens entries into one section per meaning for a section list, applying the
+ * part-of-speech filter, collapsed sections and the definition preview limit.
+ * Entries with no meaning left after filtering are dropped.
+ */
+export const outlineEntries = (
+  entries: WordData[],
+  { partOfSpeech, collapsed, expanded, previewCount = PREVIEW_DEFINITIONS }: OutlineOptions,
+): OutlineSection[] =>
+  entries.flatMap((entry, entryIndex) => {
+    const meanings = entry.meanings
+      .map((meaning, meaningIndex) => ({ meaning, meaningIndex }))
+      .filter(({ meaning }) => !partOfSpeech || meaning.partOfSpeech === partOfSpeech);
+
+    return meanings.map(({ meaning, meaningIndex }, position) => {
+      const key = `${entryIndex}:${meaningIndex}`;
+      const isCollapsed = collapsed.has(key);
+      const data = isCollapsed
+        ? []
+        : expanded.has(key)
+          ? meaning.definitions
+          : meaning.definitions.slice(0, previewCount);
+      return {
+        key,
+        entryIndex,
+        meaningIndex,
+        meaning,
+        firstOfEntry: position === 0,
+        lastOfEntry: position === meanings.length - 1,
+        collapsed: isCollapsed,
+        hiddenCount: isCollapsed ? 0 : meaning.definitions.length - data.length,
+        data,
+        keyExtractor: (_: Definition, index: number) => `${key}:${meaning.partOfSpeech}:${index}`,
+      };
+    });
+  });
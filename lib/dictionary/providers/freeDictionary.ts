@@ -0,0 +1,44 @@
+import { DEFAULT_LANGUAGE, normalizeTerm } from '@/lib/language';
+import { DictionaryError } from '../errors';
+import { requestJson } from '../request';
+import { reportValidationIssues, validateEntries, ValidationIssue } from '../schema';
+import { DictionaryProvider, LookupOptions, WordData } from '../types';
+
+export const FREE_DICTIONARY_BASE_URL = 'https://api.dictionaryapi.dev/api/v2/entries';
+
+interface FreeDictionaryOptions {
+  id?: string;
+  name?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  /** Receives repairs made to malformed responses; logs them in development by default. */
+  onValidationIssues?: (issues: ValidationIssue[], term: string) => void;
+}
+
+export const createFreeDictionaryProvider = ({
+  id = 'free-dictionary',
+  name = 'Free Dictionary',
+  baseUrl = FREE_DICTIONARY_BASE_URL,
+  timeoutMs,
+  onValidationIssues = (issues, term) => reportValidationIssues(`${id} "${term}"`, issues),
+}: FreeDictionaryOptions = {}): DictionaryProvider => {
+  const normalize = (payload: unknown): WordData[] => validateEntries(payload).entries;
+
+  const lookup = async (term: string, options: LookupOptions = {}) => {
+    const { language = DEFAULT_LANGUAGE, signal } = options;
+    const query = normalizeTerm(term, language);
+    const payload = await requestJson(`${baseUrl}/${language}/${encodeURIComponent(query)}`, {
+      providerId: id,
+      term: query,
+      signal,
+      timeoutMs,
+    });
+    if (!Array.isArray(payload)) throw new DictionaryError('parse', id, query, 'Expected an array of entries');
+    const { entries, issues } = validateEntries(payload);
+    onValidationIssues(issues, query);
+    if (entries.length === 0) throw new DictionaryError('not-found', id, query);
+    return entries;
+  };
+
+  return { id, name, lookup, normalize };
+};
@@ -0,0 +1,12 @@
+import { DictionaryProvider } from '../types';
+import { createFreeDictionaryProvider } from './freeDictionary';
+
+// Android emulators reach the host machine through 10.0.2.2 rather than localhost.
+export const MOCK_SERVER_BASE_URL = 'http://10.0.2.2:4000/api/v2/entries';
+
+/**
+ * A local server that mirrors the Free Dictionary response format,
+ * useful for development and for pinning responses during tests.
+ */
+export const createMockServerProvider = (baseUrl = MOCK_SERVER_BASE_URL): DictionaryProvider =>
+  createFreeDictionaryProvider({ id: 'mock-server', name: 'Local mock server', baseUrl });
@@ -0,0 +1,25 @@
+import { DEFAULT_LANGUAGE, normalizeTerm } from '@/lib/language';
+import { getInstalledPackMeta, getOfflineIndex } from '@/lib/offline/pack';
+import { DictionaryError } from '../errors';
+import { validateEntries } from '../schema';
+import { DictionaryProvider, LookupOptions, WordData } from '../types';
+
+/**
+ * Serves lookups from the installed offline pack (or the bundled one),
+ * so lookups resolve without any network access.
+ */
+export const createOfflineProvider = (): DictionaryProvider => {
+  const id = 'offline';
+
+  const normalize = (payload: unknown): WordData[] => validateEntries(payload).entries;
+
+  const lookup = async (term: string, { language = DEFAULT_LANGUAGE }: LookupOptions = {}) => {
+    const query = normalizeTerm(term, language);
+    const pack = await getInstalledPackMeta();
+    const matches = pack.language === language ? (await getOfflineIndex()).lookup(query) : [];
+    if (matches.length === 0) throw new DictionaryError('not-found', id, query);
+    return matches;
+  };
+
+  return { id, name: 'Offline pack', lookup, normalize };
+};
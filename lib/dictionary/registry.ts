@@ -0,0 +1,34 @@
+import { createFreeDictionaryProvider } from './providers/freeDictionary';
+import { createMockServerProvider } from './providers/mockServer';
+import { createOfflineProvider } from './providers/offline';
+import { DictionaryProvider } from './types';
+
+const providers = new Map<string, DictionaryProvider>();
+let activeProviderId = 'free-dictionary';
+
+export const registerProvider = (provider: DictionaryProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const unregisterProvider = (id: string) => {
+  providers.delete(id);
+};
+
+export const getProvider = (id: string): DictionaryProvider => {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unknown dictionary provider: ${id}`);
+  return provider;
+};
+
+export const listProviders = (): DictionaryProvider[] => Array.from(providers.values());
+
+export const setActiveProvider = (id: string) => {
+  getProvider(id);
+  activeProviderId = id;
+};
+
+export const getActiveProvider = (): DictionaryProvider => getProvider(activeProviderId);
+
+registerProvider(createFreeDictionaryProvider());
+registerProvider(createOfflineProvider());
+registerProvider(createMockServerProvider());
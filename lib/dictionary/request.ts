@@ -0,0 +1,42 @@
+import { DictionaryError, errorFromResponse, toDictionaryError } from './errors';
+
+export const DEFAULT_TIMEOUT_MS = 10000;
+
+interface RequestOptions {
+  providerId: string;
+  term: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/**
+ * Fetches and parses JSON, translating every failure into a DictionaryError.
+ * The request is aborted when `signal` fires or `timeoutMs` elapses; the two
+ * are told apart so a superseded search is not reported as a timeout.
+ */
+export const requestJson = async (
+  url: string,
+  { providerId, term, signal, timeoutMs = DEFAULT_TIMEOUT_MS }: RequestOptions,
+): Promise<unknown> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const abort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', abort);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) throw errorFromResponse(response, providerId, term);
+    return await response.json();
+  } catch (err) {
+    if (timedOut) throw new DictionaryError('timeout', providerId, term, `No response after ${timeoutMs}ms`);
+    throw toDictionaryError(err, providerId, term);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+};
@@ -0,0 +1,141 @@
+import { Definition, License, Meaning, Phonetic, WordData } from './types';
+
+export interface ValidationIssue {
+  /** Location in the payload, e.g. `[0].meanings[1].definitions[2]`. */
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  entries: WordData[];
+  issues: ValidationIssue[];
+}
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value.trim() ? value : undefined);
+
+/**
+ * Reads an array field, reporting a wrong type and treating a missing field
+ * as empty so later code can rely on arrays being present.
+ */
+const arrayField = (raw: Raw, key: string, path: string, issues: ValidationIssue[]): unknown[] => {
+  const value = raw[key];
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value;
+  issues.push({ path: `${path}.${key}`, message: 'expected an array' });
+  return [];
+};
+
+const stringList = (raw: Raw, key: string, path: string, issues: ValidationIssue[]) => {
+  const values = arrayField(raw, key, path, issues);
+  const strings = values.filter((value): value is string => typeof value === 'string' && value.trim().length > 0);
+  if (strings.length !== values.length) issues.push({ path: `${path}.${key}`, message: 'dropped non-string items' });
+  return strings.length > 0 ? strings : undefined;
+};
+
+const parseLicense = (value: unknown): License | undefined => {
+  if (!isObject(value)) return undefined;
+  const name = optionalString(value.name);
+  return name ? { name, url: optionalString(value.url) } : undefined;
+};
+
+const parsePhonetic = (value: unknown, path: string, issues: ValidationIssue[]): Phonetic | null => {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'expected a phonetic object' });
+    return null;
+  }
+  const phonetic: Phonetic = {
+    text: optionalString(value.text),
+    audio: optionalString(value.audio),
+    sourceUrl: optionalString(value.sourceUrl),
+    license: parseLicense(value.license),
+  };
+  return phonetic.text || phonetic.audio ? phonetic : null;
+};
+
+const parseDefinition = (value: unknown, path: string, issues: ValidationIssue[]): Definition | null => {
+  if (!isObject(value) || !optionalString(value.definition)) {
+    issues.push({ path, message: 'definition text is missing' });
+    return null;
+  }
+  return {
+    definition: value.definition as string,
+    example: optionalString(value.example),
+    synonyms: stringList(value, 'synonyms', path, issues),
+    antonyms: stringList(value, 'antonyms', path, issues),
+  };
+};
+
+const parseMeaning = (value: unknown, path: string, issues: ValidationIssue[]): Meaning | null => {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'expected a meaning object' });
+    return null;
+  }
+  const definitions = arrayField(value, 'definitions', path, issues)
+    .map((definition, index) => parseDefinition(definition, `${path}.definitions[${index}]`, issues))
+    .filter((definition): definition is Definition => definition !== null);
+  if (definitions.length === 0) {
+    issues.push({ path, message: 'meaning has no usable definitions' });
+    return null;
+  }
+  return {
+    partOfSpeech: optionalString(value.partOfSpeech) ?? 'other',
+    definitions,
+    synonyms: stringList(value, 'synonyms', path, issues),
+    antonyms: stringList(value, 'antonyms', path, issues),
+  };
+};
+
+const parseEntry = (value: unknown, path: string, issues: ValidationIssue[]): WordData | null => {
+  if (!isObject(value) || !optionalString(value.word)) {
+    issues.push({ path, message: 'entry has no headword' });
+    return null;
+  }
+  const meanings = arrayField(value, 'meanings', path, issues)
+    .map((meaning, index) => parseMeaning(meaning, `${path}.meanings[${index}]`, issues))
+    .filter((meaning): meaning is Meaning => meaning !== null);
+  // A headword with nothing to show is no entry at all; providers report it as not found.
+  if (meanings.length === 0) {
+    issues.push({ path, message: 'entry has no usable meanings' });
+    return null;
+  }
+  return {
+    word: value.word as string,
+    phonetic: optionalString(value.phonetic),
+    phonetics: arrayField(value, 'phonetics', path, issues)
+      .map((phonetic, index) => parsePhonetic(phonetic, `${path}.phonetics[${index}]`, issues))
+      .filter((phonetic): phonetic is Phonetic => phonetic !== null),
+    origin: optionalString(value.origin),
+    meanings,
+    sourceUrls: stringList(value, 'sourceUrls', path, issues),
+    license: parseLicense(value.license),
+  };
+};
+
+/**
+ * Checks a Free Dictionary style payload against the WordData model. Missing
+ * optional arrays become empty, unusable items are dropped and every repair
+ * is listed in `issues`, so a partly malformed response still renders.
+ * Entries left without a meaning are dropped too.
+ */
+export const validateEntries = (payload: unknown): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  if (!Array.isArray(payload)) {
+    return { entries: [], issues: [{ path: '', message: 'expected an array of entries' }] };
+  }
+  const entries = payload
+    .map((entry, index) => parseEntry(entry, `[${index}]`, issues))
+    .filter((entry): entry is WordData => entry !== null);
+  return { entries, issues };
+};
+
+export const reportValidationIssues = (source: string, issues: ValidationIssue[]) => {
+  if (issues.length === 0 || !__DEV__) return;
+  console.warn(
+    `${source}: ${issues.length} malformed field(s) repaired\n` +
+      issues.map((issue) => `  ${issue.path || '(root)'}: ${issue.message}`).join('\n'),
+  );
+};
@@ -0,0 +1,91 @@
+import { DEFAULT_LANGUAGE, normalizeTerm } from '@/lib/language';
+import { Definition, Meaning, WordData } from './types';
+
+export interface RelatedWordSet {
+  synonyms: string[];
+  antonyms: string[];
+}
+
+export interface ThesaurusSense extends RelatedWordSet {
+  /** The definition the words belong to; absent for words given for the part of speech as a whole. */
+  definition?: string;
+}
+
+export interface ThesaurusGroup {
+  partOfSpeech: string;
+  senses: ThesaurusSense[];
+}
+
+/** Collects words once each, in first-seen order, skipping the headword and anything already taken. */
+const collector = (headword: string, language: string) => {
+  const seen = new Set([normalizeTerm(headword, language)]);
+  return (words?: string[]) =>
+    (words ?? []).filter((word) => {
+      const key = normalizeTerm(word, language);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+const senseOf = (take: (words?: string[]) => string[], source: Definition | Meaning, definition?: string) => ({
+  definition,
+  synonyms: take(source.synonyms),
+  antonyms: take(source.antonyms),
+});
+
+const hasWords = (set: RelatedWordSet) => set.synonyms.length > 0 || set.antonyms.length > 0;
+
+/**
+ * Gathers the synonyms and antonyms of every entry into one group per part of speech,
+ * with a sense per definition that lists any. Each word appears once per group: under
+ * the first definition that names it, or in a trailing general sense when only the
+ * meaning lists it.
+ */
+export const buildThesaurus = (entries: WordData[], language = DEFAULT_LANGUAGE): ThesaurusGroup[] => {
+  const groups: (ThesaurusGroup & { take: (words?: string[]) => string[]; general: ThesaurusSense })[] = [];
+
+  entries.forEach((entry) => {
+    entry.meanings.forEach((meaning) => {
+      let found = groups.find((item) => item.partOfSpeech === meaning.partOfSpeech);
+      if (!found) {
+        found = {
+          partOfSpeech: meaning.partOfSpeech,
+          senses: [],
+          take: collector(entry.word, language),
+          general: { synonyms: [], antonyms: [] },
+        };
+        groups.push(found);
+      }
+      const group = found;
+      meaning.definitions.forEach((definition) => {
+        const sense = senseOf(group.take, definition, definition.definition);
+        if (hasWords(sense)) group.senses.push(sense);
+      });
+      const general = senseOf(group.take, meaning);
+      group.general.synonyms.push(...general.synonyms);
+      group.general.antonyms.push(...general.antonyms);
+    });
+  });
+
+  return groups
+    .map(({ partOfSpeech, senses, general }) => ({
+      partOfSpeech,
+      senses: hasWords(general) ? [...senses, general] : senses,
+    }))
+    .filter((group) => group.senses.length > 0);
+};
+
+/** Every synonym and antonym of the entries, deduplicated across parts of speech. */
+export const relatedWords = (entries: WordData[], language = DEFAULT_LANGUAGE): RelatedWordSet => {
+  const take = collector(entries[0]?.word ?? '', language);
+  const synonyms: string[] = [];
+  const antonyms: string[] = [];
+  buildThesaurus(entries, language).forEach((group) =>
+    group.senses.forEach((sense) => {
+      synonyms.push(...take(sense.synonyms));
+      antonyms.push(...take(sense.antonyms));
+    }),
+  );
+  return { synonyms, antonyms };
+};
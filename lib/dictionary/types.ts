@@ -0,0 +1,49 @@
+export interface License {
+  name: string;
+  url?: string;
+}
+
+export interface Phonetic {
+  text?: string;
+  audio?: string;
+  sourceUrl?: string;
+  license?: License;
+}
+
+export interface Definition {
+  definition: string;
+  example?: string;
+  synonyms?: string[];
+  antonyms?: string[];
+}
+
+export interface Meaning {
+  partOfSpeech: string;
+  definitions: Definition[];
+  /** Related words that apply to the sense as a whole rather than one definition. */
+  synonyms?: string[];
+  antonyms?: string[];
+}
+
+export interface WordData {
+  word: string;
+  phonetic?: string;
+  phonetics: Phonetic[];
+  origin?: string;
+  meanings: Meaning[];
+  sourceUrls?: string[];
+  license?: License;
+}
+
+export interface LookupOptions {
+  /** BCP 47 code such as `en` or `pt-BR`; providers default to English. */
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface DictionaryProvider {
+  id: string;
+  name: string;
+  lookup(term: string, options?: LookupOptions): Promise<WordData[]>;
+  normalize(payload: unknown): WordData[];
+}
@@ -0,0 +1,87 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { WordData } from '@/lib/dictionary/types';
+import { DEFAULT_LANGUAGE, normalizeTerm } from '@/lib/language';
+
+const FAVORITES_KEY = 'favoriteWords';
+
+export interface Favorite {
+  word: string;
+  language: string;
+  entries: WordData[];
+  savedAt: number;
+}
+
+type Listener = (favorites: Favorite[]) => void;
+
+let favorites: Favorite[] | null = null;
+const listeners = new Set<Listener>();
+
+const favoriteKey = (word: string, language: string) => `${language}:${normalizeTerm(word, language)}`;
+
+const keyOf = (favorite: Favorite) => favoriteKey(favorite.word, favorite.language);
+
+const persist = async (next: Favorite[]) => {
+  favorites = next;
+  listeners.forEach((listener) => listener(next));
+  await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(next));
+};
+
+// Updates are read-modify-write across awaits, so they are chained like the history's to avoid lost writes.
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Applies the change to the latest saved words, after every update queued before it has been written. */
+const updateFavorites = (update: (current: Favorite[]) => Favorite[]) => {
+  const task = async () => persist(update(await loadFavorites()));
+  const next = queue.then(task, task);
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+export const loadFavorites = async (): Promise<Favorite[]> => {
+  if (favorites) return favorites;
+  try {
+    const raw = await AsyncStorage.getItem(FAVORITES_KEY);
+    // Bookmarks saved before lookups carried a language were all English.
+    favorites = raw
+      ? JSON.parse(raw).map((favorite: Favorite) => ({ ...favorite, language: favorite.language ?? DEFAULT_LANGUAGE }))
+      : [];
+  } catch (error) {
+    console.error('Failed to load favorites', error);
+    favorites = [];
+  }
+  return favorites!;
+};
+
+export const subscribeFavorites = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const findFavorite = async (word: string, language = DEFAULT_LANGUAGE) =>
+  (await loadFavorites()).find((favorite) => keyOf(favorite) === favoriteKey(word, language));
+
+export const isFavorite = (list: Favorite[], word: string, language = DEFAULT_LANGUAGE) =>
+  list.some((favorite) => keyOf(favorite) === favoriteKey(word, language));
+
+/** Adds the word with a snapshot of its entries, or removes it if it is already saved. */
+export const toggleFavorite = async (entries: WordData[], language = DEFAULT_LANGUAGE) => {
+  if (entries.length === 0) return;
+  const word = entries[0].word;
+  await updateFavorites((current) =>
+    isFavorite(current, word, language)
+      ? current.filter((favorite) => keyOf(favorite) !== favoriteKey(word, language))
+      : [{ word, language, entries, savedAt: Date.now() }, ...current],
+  );
+};
+
+export const removeFavorite = (word: string, language = DEFAULT_LANGUAGE) =>
+  updateFavorites((current) => current.filter((favorite) => keyOf(favorite) !== favoriteKey(word, language)));
+
+/** Replaces every saved word, e.g. after an import, keeping the most recently saved first. */
+export const restoreFavorites = (list: Favorite[]) =>
+  updateFavorites(() => [...list].sort((a, b) => b.savedAt - a.savedAt));
+
+export const partsOfSpeech = (favorite: Favorite) =>
+  Array.from(new Set(favorite.entries.flatMap((entry) => entry.meanings.map((meaning) => meaning.partOfSpeech))));
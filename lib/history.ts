@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { calendarDay, DAY_MS } from './dates';
+import { DEFAULT_LANGUAGE, normalizeTerm } from './language';
+import { loadPreferences } from './preferences';
+
+const HISTORY_KEY = 'lookupHistory';
+const LEGACY_HISTORY_KEY = 'searchHistory';
+
+export type LookupStatus = 'success' | 'failure';
+
+export interface HistoryEntry {
+  word: string;
+  language: string;
+  firstLookedUpAt: number;
+  lastLookedUpAt: number;
+  count: number;
+  status: LookupStatus;
+}
+
+export interface HistorySection {
+  title: string;
+  day: string;
+  data: HistoryEntry[];
+}
+
+type Listener = (history: HistoryEntry[]) => void;
+
+let history: HistoryEntry[] | null = null;
+let loading: Promise<HistoryEntry[]> | null = null;
+const listeners = new Set<Listener>();
+
+const historyKey = (word: string, language: string) => `${language}:${normalizeTerm(word, language)}`;
+
+const keyOf = (entry: HistoryEntry) => historyKey(entry.word, entry.language);
+
+const persist = async (next: HistoryEntry[]) => {
+  history = next;
+  listeners.forEach((listener) => listener(next));
+  await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+};
+
+// Updates are read-modify-write across awaits, so they are chained to avoid lost or reordered writes.
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Applies the change to the latest history, after every update queued before it has been written. */
+const updateHistory = (update: (current: HistoryEntry[], historySize: number) => HistoryEntry[]) => {
+  const task = async () => {
+    const [current, { historySize }] = await Promise.all([loadHistory(), loadPreferences()]);
+    await persist(update(current, historySize));
+  };
+  const next = queue.then(task, task);
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+// The first release stored up to five bare strings, newest first.
+const migrateLegacyHistory = async (): Promise<HistoryEntry[]> => {
+  const raw = await AsyncStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!raw) return [];
+  const now = Date.now();
+  const legacy: unknown = JSON.parse(raw);
+  const migrated = (Array.isArray(legacy) ? legacy : [])
+    .filter((word): word is string => typeof word === 'string' && word.trim().length > 0)
+    .map((word, index) => ({
+      word,
+      language: DEFAULT_LANGUAGE,
+      firstLookedUpAt: now - index,
+      lastLookedUpAt: now - index,
+      count: 1,
+      status: 'success' as const,
+    }));
+  await AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(migrated));
+  await AsyncStorage.removeItem(LEGACY_HISTORY_KEY);
+  return migrated;
+};
+
+export const loadHistory = (): Promise<HistoryEntry[]> => {
+  if (history) return Promise.resolve(history);
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(HISTORY_KEY);
+        history = raw
+          ? JSON.parse(raw).map((entry: HistoryEntry) => ({ ...entry, language: entry.language ?? DEFAULT_LANGUAGE }))
+          : await migrateLegacyHistory();
+      } catch (error) {
+        console.error('Failed to load history', error);
+        history = [];
+      }
+      return history!;
+    })();
+  }
+  return loading;
+};
+
+export const subscribeHistory = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Moves the word to the top of the history, bumping its count and recording the outcome. */
+export const recordLookup = (word: string, status: LookupStatus, language = DEFAULT_LANGUAGE) => {
+  const key = historyKey(word, language);
+  const now = Date.now();
+  return updateHistory((current, historySize) => {
+    const existing = current.find((entry) => keyOf(entry) === key);
+    const entry: HistoryEntry = existing
+      ? { ...existing, lastLookedUpAt: now, count: existing.count + 1, status }
+      : { word: word.trim().normalize('NFC'), language, firstLookedUpAt: now, lastLookedUpAt: now, count: 1, status };
+    return [entry, ...current.filter((item) => keyOf(item) !== key)].slice(0, historySize);
+  });
+};
+
+export const removeHistoryEntry = (entry: HistoryEntry) =>
+  updateHistory((current) => current.filter((item) => keyOf(item) !== keyOf(entry)));
+
+export const clearHistory = () => updateHistory(() => []);
+
+/** Replaces the whole history, e.g. after an import, keeping the newest lookups first. */
+export const restoreHistory = (entries: HistoryEntry[]) =>
+  updateHistory((_, historySize) =>
+    [...entries].sort((a, b) => b.lastLookedUpAt - a.lastLookedUpAt).slice(0, historySize),
+  );
+
+/** Drops the oldest lookups beyond the limit, e.g. after the history size setting shrinks. */
+export const trimHistory = (limit: number) =>
+  updateHistory((current) => (current.length > limit ? current.slice(0, limit) : current));
+
+export const searchHistory = (entries: HistoryEntry[], query: string) => {
+  const needle = query.trim().normalize('NFC').toLowerCase();
+  return needle ? entries.filter((entry) => entry.word.normalize('NFC').toLowerCase().includes(needle)) : entries;
+};
+
+const dayTitle = (timestamp: number, now: number) => {
+  const key = calendarDay(timestamp);
+  if (key === calendarDay(now)) return 'Today';
+  if (key === calendarDay(now - DAY_MS)) return 'Yesterday';
+  return new Date(timestamp).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+/** Groups entries by the local day of their most recent lookup, newest day first. */
+export const groupHistoryByDay = (entries: HistoryEntry[], now = Date.now()): HistorySection[] => {
+  const sections: HistorySection[] = [];
+  [...entries]
+    .sort((a, b) => b.lastLookedUpAt - a.lastLookedUpAt)
+    .forEach((entry) => {
+      const day = calendarDay(entry.lastLookedUpAt);
+      const section = sections[sections.length - 1];
+      if (section?.day === day) section.data.push(entry);
+      else sections.push({ title: dayTitle(entry.lastLookedUpAt, now), day, data: [entry] });
+    });
+  return sections;
+};
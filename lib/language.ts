@@ -0,0 +1,43 @@
+export interface Language {
+  code: string;
+  label: string;
+  rtl?: boolean;
+}
+
+/** Languages the Free Dictionary API serves under `/entries/<code>/`. */
+export const SUPPORTED_LANGUAGES: Language[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+  { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' },
+  { code: 'it', label: 'Italiano' },
+  { code: 'pt-BR', label: 'Português (BR)' },
+  { code: 'ru', label: 'Русский' },
+  { code: 'tr', label: 'Türkçe' },
+  { code: 'ar', label: 'العربية', rtl: true },
+  { code: 'hi', label: 'हिन्दी' },
+  { code: 'ja', label: '日本語' },
+  { code: 'ko', label: '한국어' },
+];
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const findLanguage = (code: string) =>
+  SUPPORTED_LANGUAGES.find((language) => language.code === code) ?? SUPPORTED_LANGUAGES[0];
+
+export const isRtlLanguage = (code: string) => !!findLanguage(code).rtl;
+
+const safeLocaleLowerCase = (text: string, code: string) => {
+  try {
+    return text.toLocaleLowerCase(code);
+  } catch {
+    return text.toLowerCase();
+  }
+};
+
+/**
+ * Canonical form of a user-typed term: trimmed, NFC-composed and lowercased
+ * with the language's own rules (so Turkish "I" becomes "ı", not "i").
+ */
+export const normalizeTerm = (term: string, code = DEFAULT_LANGUAGE) =>
+  safeLocaleLowerCase(term.trim().normalize('NFC'), code);
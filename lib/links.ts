@@ -0,0 +1,19 @@
+import { Share } from 'react-native';
+import { DEFAULT_LANGUAGE, normalizeTerm } from './language';
+
+export const DEEP_LINK_SCHEME = 'dictionary';
+
+/** `dictionary://word/<term>`, which expo-router resolves to the `app/word/[term]` route. */
+export const wordLink = (term: string, language = DEFAULT_LANGUAGE) => {
+  const path = `${DEEP_LINK_SCHEME}://word/${encodeURIComponent(normalizeTerm(term, language))}`;
+  return language === DEFAULT_LANGUAGE ? path : `${path}?lang=${encodeURIComponent(language)}`;
+};
+
+export const shareWord = async (term: string, summary?: string, language = DEFAULT_LANGUAGE) => {
+  const link = wordLink(term, language);
+  await Share.share({
+    title: term,
+    message: summary ? `${term}: ${summary}\n${link}` : link,
+    url: link,
+  });
+};
@@ -0,0 +1,107 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_LANGUAGE, normalizeTerm } from './language';
+
+const NOTES_KEY = 'wordNotes';
+
+/** The user's own annotations on a headword, independent of any provider's entry. */
+export interface WordNote {
+  word: string;
+  language: string;
+  text: string;
+  tags: string[];
+  examples: string[];
+  updatedAt: number;
+}
+
+export type WordNoteChanges = Partial<Pick<WordNote, 'text' | 'tags' | 'examples'>>;
+
+type Listener = (notes: WordNote[]) => void;
+
+let notes: WordNote[] | null = null;
+const listeners = new Set<Listener>();
+
+const noteKey = (word: string, language: string) => `${language}:${normalizeTerm(word, language)}`;
+
+const keyOf = (note: WordNote) => noteKey(note.word, note.language);
+
+const isEmpty = (note: WordNote) => !note.text.trim() && note.tags.length === 0 && note.examples.length === 0;
+
+const persist = async (next: WordNote[]) => {
+  notes = next;
+  listeners.forEach((listener) => listener(next));
+  await AsyncStorage.setItem(NOTES_KEY, JSON.stringify(next));
+};
+
+// Updates are read-modify-write across awaits, so they are chained like the history's to avoid lost writes.
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Applies the change to the latest notes, after every update queued before it has been written. */
+const updateNotes = (update: (current: WordNote[]) => WordNote[]) => {
+  const task = async () => persist(update(await loadNotes()));
+  const next = queue.then(task, task);
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+/** Tags are compared case-insensitively and stored trimmed and lowercased. */
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').replace(/\s+/g, '-').toLowerCase();
+
+export const loadNotes = async (): Promise<WordNote[]> => {
+  if (notes) return notes;
+  try {
+    const raw = await AsyncStorage.getItem(NOTES_KEY);
+    notes = raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Failed to load notes', error);
+    notes = [];
+  }
+  return notes!;
+};
+
+export const subscribeNotes = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const findNote = (list: WordNote[], word: string, language = DEFAULT_LANGUAGE) =>
+  list.find((note) => keyOf(note) === noteKey(word, language));
+
+/** Merges the changes into the word's note, creating it if needed; a note left empty is dropped. */
+export const updateNote = (word: string, language: string, changes: WordNoteChanges) =>
+  updateNotes((current) => {
+    const existing = findNote(current, word, language);
+    const note: WordNote = {
+      word: existing?.word ?? word,
+      language,
+      text: existing?.text ?? '',
+      tags: existing?.tags ?? [],
+      examples: existing?.examples ?? [],
+      ...changes,
+      updatedAt: Date.now(),
+    };
+    note.tags = Array.from(new Set(note.tags.map(normalizeTag).filter(Boolean)));
+    note.examples = note.examples.map((example) => example.trim()).filter(Boolean);
+    const others = current.filter((item) => keyOf(item) !== keyOf(note));
+    return isEmpty(note) ? others : [note, ...others];
+  });
+
+export const removeNote = (word: string, language = DEFAULT_LANGUAGE) =>
+  updateNotes((current) => current.filter((note) => keyOf(note) !== noteKey(word, language)));
+
+/** Replaces every note, e.g. after an import, dropping any left empty. */
+export const restoreNotes = (list: WordNote[]) =>
+  updateNotes(() => list.filter((note) => !isEmpty(note)).sort((a, b) => b.updatedAt - a.updatedAt));
+
+/** Every tag in use with the number of words carrying it, most used first. */
+export const tagCounts = (list: WordNote[]) => {
+  const counts = new Map<string, number>();
+  list.forEach((note) => note.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag),
+  );
+};
+
+export const notesWithTag = (list: WordNote[], tag: string) =>
+  list.filter((note) => note.tags.includes(tag)).sort((a, b) => a.word.localeCompare(b.word));
@@ -0,0 +1,74 @@
+import { getInstalledPackMeta, getOfflineIndex, installPack, PackError, parsePack, uninstallPack } from '@/lib/offline';
+
+const pack = (overrides: Record<string, unknown> = {}) => ({
+  formatVersion: 1,
+  id: 'test-pack',
+  name: 'Test pack',
+  language: 'en',
+  version: 1,
+  entries: [
+    { word: 'zephyr', phonetics: [], meanings: [{ partOfSpeech: 'noun', definitions: [{ definition: 'A soft breeze.' }] }] },
+  ],
+  ...overrides,
+});
+
+const failure = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected a failure');
+};
+
+describe('parsePack', () => {
+  it('reads a pack from JSON text', () => {
+    expect(parsePack(JSON.stringify(pack()))).toMatchObject({ id: 'test-pack', name: 'Test pack', version: 1 });
+  });
+
+  it('rejects text that is not JSON as an invalid pack', () => {
+    const error = failure(() => parsePack('{"formatVersion": 1,'));
+
+    expect(error).toBeInstanceOf(PackError);
+    expect(error).toMatchObject({ code: 'invalid' });
+  });
+
+  it.each([[null], [[]], ['"text"'], [42]])('rejects %p as not a pack', (input) => {
+    expect(failure(() => parsePack(input))).toMatchObject({ code: 'invalid' });
+  });
+
+  it('rejects other format versions', () => {
+    expect(failure(() => parsePack(pack({ formatVersion: 2 })))).toMatchObject({ code: 'unsupported-format' });
+  });
+
+  it('rejects a pack with an unusable entry', () => {
+    const error = failure(() => parsePack(pack({ entries: [{ word: 'empty', meanings: [] }] })));
+
+    expect(error).toMatchObject({ code: 'invalid', message: 'Entry [0] is not a valid word entry' });
+  });
+
+  it('falls back to the id and English for a missing name and language', () => {
+    expect(parsePack(pack({ name: '', language: 3 }))).toMatchObject({ name: 'test-pack', language: 'en' });
+  });
+});
+
+describe('installing packs', () => {
+  afterEach(() => uninstallPack());
+
+  it('replaces the bundled pack until it is uninstalled', async () => {
+    const meta = await installPack(JSON.stringify(pack()));
+
+    expect(meta).toMatchObject({ id: 'test-pack', wordCount: 1, installedAt: expect.any(Number) });
+    expect((await getOfflineIndex()).headwords()).toEqual(['zephyr']);
+
+    await uninstallPack();
+    expect(await getInstalledPackMeta()).toMatchObject({ id: 'bundled-en', installedAt: undefined });
+  });
+
+  it('refuses a version that is already installed', async () => {
+    await installPack(pack({ version: 2 }));
+
+    await expect(installPack(pack({ version: 2 }))).rejects.toMatchObject({ code: 'outdated' });
+    await expect(installPack(pack({ version: 2 }), { force: true })).resolves.toMatchObject({ version: 2 });
+  });
+});
@@ -0,0 +1,68 @@
+import { WordData } from '@/lib/dictionary/types';
+
+export const BUNDLED_WORDS: WordData[] = [
+  {
+    word: 'hello',
+    phonetic: 'həˈləʊ',
+    phonetics: [{ text: 'həˈləʊ' }],
+    meanings: [
+      {
+        partOfSpeech: 'noun',
+        definitions: [
+          { definition: '"Hello!" or an equivalent greeting.', synonyms: ['greeting'] },
+        ],
+      },
+      {
+        partOfSpeech: 'exclamation',
+        definitions: [
+          {
+            definition: 'Used as a greeting or to begin a phone conversation.',
+            example: 'hello there, Katie!',
+            antonyms: ['goodbye'],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    word: 'dictionary',
+    phonetic: 'ˈdɪkʃən(ə)ɹi',
+    phonetics: [{ text: 'ˈdɪkʃən(ə)ɹi' }],
+    origin: 'From Medieval Latin dictionarium, from Latin dictio (“speaking”).',
+    meanings: [
+      {
+        partOfSpeech: 'noun',
+        definitions: [
+          {
+            definition: 'A reference work listing words, usually in alphabetical order, with their meanings.',
+            example: 'I looked the word up in the dictionary.',
+            synonyms: ['lexicon', 'wordbook'],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    word: 'word',
+    phonetic: 'wɜːd',
+    phonetics: [{ text: 'wɜːd' }],
+    meanings: [
+      {
+        partOfSpeech: 'noun',
+        definitions: [
+          {
+            definition: 'The smallest unit of language that has a particular meaning and can be expressed by itself.',
+            example: 'She did not say a word.',
+            synonyms: ['term', 'vocable'],
+          },
+        ],
+      },
+      {
+        partOfSpeech: 'verb',
+        definitions: [
+          { definition: 'To say or write using particular words; to phrase.', example: 'How should I word this letter?' },
+        ],
+      },
+    ],
+  },
+];
@@ -0,0 +1,152 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { validateEntries } from '@/lib/dictionary/schema';
+import { WordData } from '@/lib/dictionary/types';
+import { BUNDLED_WORDS } from './bundledWords';
+import { createSearchIndex, SearchIndex } from './searchIndex';
+
+const META_KEY = 'offlinePack:meta';
+const ENTRIES_KEY = 'offlinePack:entries';
+
+export const PACK_FORMAT_VERSION = 1;
+
+export interface PackMeta {
+  id: string;
+  name: string;
+  language: string;
+  version: number;
+  wordCount: number;
+  installedAt?: number;
+}
+
+export interface DictionaryPack {
+  formatVersion: number;
+  id: string;
+  name: string;
+  language: string;
+  version: number;
+  entries: WordData[];
+}
+
+export type PackErrorCode = 'invalid' | 'unsupported-format' | 'outdated';
+
+export class PackError extends Error {
+  code: PackErrorCode;
+
+  constructor(code: PackErrorCode, message: string) {
+    super(message);
+    this.name = 'PackError';
+    this.code = code;
+  }
+}
+
+export const BUNDLED_PACK: DictionaryPack = {
+  formatVersion: PACK_FORMAT_VERSION,
+  id: 'bundled-en',
+  name: 'Bundled English',
+  language: 'en',
+  version: 1,
+  entries: BUNDLED_WORDS,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value.trim() ? value : undefined);
+
+const readJson = (input: string): unknown => {
+  try {
+    return JSON.parse(input);
+  } catch {
+    throw new PackError('invalid', 'Pack is not valid JSON');
+  }
+};
+
+export const parsePack = (input: unknown): DictionaryPack => {
+  const pack = typeof input === 'string' ? readJson(input) : input;
+  if (!isObject(pack)) throw new PackError('invalid', 'Pack is not an object');
+  if (pack.formatVersion !== PACK_FORMAT_VERSION) {
+    throw new PackError('unsupported-format', `Unsupported pack format: ${String(pack.formatVersion)}`);
+  }
+  if (typeof pack.id !== 'string' || typeof pack.version !== 'number' || !Array.isArray(pack.entries)) {
+    throw new PackError('invalid', 'Pack is missing id, version or entries');
+  }
+  const { entries, issues } = validateEntries(pack.entries);
+  if (entries.length !== pack.entries.length) {
+    const dropped = issues.find((issue) => /^\[\d+\]$/.test(issue.path));
+    throw new PackError('invalid', `Entry ${dropped?.path ?? ''} is not a valid word entry`);
+  }
+  return {
+    formatVersion: PACK_FORMAT_VERSION,
+    id: pack.id,
+    name: optionalString(pack.name) ?? pack.id,
+    language: optionalString(pack.language) ?? 'en',
+    version: pack.version,
+    entries,
+  };
+};
+
+const toMeta = (pack: DictionaryPack, installedAt?: number): PackMeta => ({
+  id: pack.id,
+  name: pack.name,
+  language: pack.language,
+  version: pack.version,
+  wordCount: pack.entries.length,
+  installedAt,
+});
+
+let active: { meta: PackMeta; index: SearchIndex } | null = null;
+let loading: Promise<void> | null = null;
+
+const activateBundledPack = () => {
+  active = { meta: toMeta(BUNDLED_PACK), index: createSearchIndex(BUNDLED_PACK.entries, BUNDLED_PACK.language) };
+};
+
+/** Loads the installed pack once per session, falling back to the bundled pack. */
+export const loadOfflinePack = () => {
+  if (!loading) {
+    loading = (async () => {
+      const [meta, entries] = await Promise.all([AsyncStorage.getItem(META_KEY), AsyncStorage.getItem(ENTRIES_KEY)]);
+      if (meta && entries) {
+        const parsedMeta: PackMeta = JSON.parse(meta);
+        active = { meta: parsedMeta, index: createSearchIndex(JSON.parse(entries), parsedMeta.language) };
+      } else {
+        activateBundledPack();
+      }
+    })().catch(() => activateBundledPack());
+  }
+  return loading;
+};
+
+export const getOfflineIndex = async (): Promise<SearchIndex> => {
+  await loadOfflinePack();
+  return active!.index;
+};
+
+export const getInstalledPackMeta = async (): Promise<PackMeta> => {
+  await loadOfflinePack();
+  return active!.meta;
+};
+
+/**
+ * Installs a pack, replacing the current one. A pack with the same id must
+ * carry a newer version unless `force` is set.
+ */
+export const installPack = async (input: unknown, { force = false } = {}): Promise<PackMeta> => {
+  const pack = parsePack(input);
+  const current = await getInstalledPackMeta();
+  if (!force && current.id === pack.id && current.version >= pack.version) {
+    throw new PackError('outdated', `${pack.id} v${current.version} is already installed`);
+  }
+  const meta = toMeta(pack, Date.now());
+  await AsyncStorage.multiSet([
+    [META_KEY, JSON.stringify(meta)],
+    [ENTRIES_KEY, JSON.stringify(pack.entries)],
+  ]);
+  active = { meta, index: createSearchIndex(pack.entries, pack.language) };
+  return meta;
+};
+
+export const uninstallPack = async () => {
+  await AsyncStorage.multiRemove([META_KEY, ENTRIES_KEY]);
+  activateBundledPack();
+};
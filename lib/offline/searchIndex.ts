@@ -0,0 +1,86 @@
+import { WordData } from '@/lib/dictionary/types';
+import { normalizeTerm } from '@/lib/language';
+
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'to', 'was', 'with',
+]);
+
+export interface SearchHit {
+  word: string;
+  score: number;
+}
+
+export interface SearchIndex {
+  size: number;
+  headwords(): string[];
+  lookup(headword: string): WordData[];
+  search(query: string, limit?: number): SearchHit[];
+}
+
+export const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}'-]+/u)
+    .map((token) => token.replace(/^['-]+|['-]+$/g, ''))
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+
+const FIELD_WEIGHTS = {
+  definition: 1,
+  example: 0.5,
+  related: 2,
+};
+
+/**
+ * Inverted index over headwords and definition text. Tokens map to a weight
+ * per headword, so a search is a sum of per-term weights plus a bonus for
+ * matching the headword itself.
+ */
+export const createSearchIndex = (entries: WordData[], language?: string): SearchIndex => {
+  const byHeadword = new Map<string, WordData[]>();
+  const postings = new Map<string, Map<string, number>>();
+
+  const addPosting = (token: string, headword: string, weight: number) => {
+    const posting = postings.get(token) ?? new Map<string, number>();
+    posting.set(headword, (posting.get(headword) ?? 0) + weight);
+    postings.set(token, posting);
+  };
+
+  entries.forEach((entry) => {
+    const headword = normalizeTerm(entry.word, language);
+    byHeadword.set(headword, [...(byHeadword.get(headword) ?? []), entry]);
+    entry.meanings.forEach((meaning) => {
+      meaning.definitions.forEach((definition) => {
+        tokenize(definition.definition).forEach((t) => addPosting(t, headword, FIELD_WEIGHTS.definition));
+        if (definition.example) {
+          tokenize(definition.example).forEach((t) => addPosting(t, headword, FIELD_WEIGHTS.example));
+        }
+        [...(definition.synonyms ?? []), ...(definition.antonyms ?? [])].forEach((related) =>
+          tokenize(related).forEach((t) => addPosting(t, headword, FIELD_WEIGHTS.related)),
+        );
+      });
+    });
+  });
+
+  const search = (query: string, limit = 20): SearchHit[] => {
+    const normalized = normalizeTerm(query, language);
+    const scores = new Map<string, number>();
+    tokenize(normalized).forEach((token) => {
+      postings.get(token)?.forEach((weight, headword) => scores.set(headword, (scores.get(headword) ?? 0) + weight));
+    });
+    byHeadword.forEach((_, headword) => {
+      if (headword === normalized) scores.set(headword, (scores.get(headword) ?? 0) + 10);
+      else if (normalized && headword.startsWith(normalized)) scores.set(headword, (scores.get(headword) ?? 0) + 3);
+    });
+    return Array.from(scores, ([word, score]) => ({ word, score }))
+      .sort((a, b) => b.score - a.score || a.word.localeCompare(b.word))
+      .slice(0, limit);
+  };
+
+  return {
+    size: byHeadword.size,
+    headwords: () => Array.from(byHeadword.keys()).sort(),
+    lookup: (headword) => byHeadword.get(normalizeTerm(headword, language)) ?? [],
+    search,
+  };
+};
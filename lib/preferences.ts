@@ -0,0 +1,92 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_CACHE_MAX_BYTES } from './cache/lookupCache';
+import { DEFAULT_LANGUAGE } from './language';
+import { ThemePreference } from './theme';
+import { WordOfTheDaySource } from './wordOfTheDay/picker';
+
+const PREFERENCES_KEY = 'preferences';
+
+export interface Preferences {
+  /** Lookup language; the language chip on the home screen changes it too. */
+  language: string;
+  theme: ThemePreference;
+  /** Multiplier applied to entry text, 1 is the design size. */
+  fontScale: number;
+  /** Lookups kept in history before the oldest are dropped. */
+  historySize: number;
+  /** Recent searches shown as chips on the home screen. */
+  recentSearchCount: number;
+  /** Play the first recording as soon as an entry loads. */
+  autoPlayPronunciation: boolean;
+  /** Upper bound for cached lookups, in bytes of serialized JSON. */
+  cacheMaxBytes: number;
+  /** Registered dictionary provider used for online lookups. */
+  providerId: string;
+  /** Text-to-speech rate, 1 is normal speed. */
+  speechRate: number;
+  /** Text-to-speech pitch, 1 is the voice's natural pitch. */
+  speechPitch: number;
+  /** Platform voice identifier; the system default when unset. */
+  speechVoice?: string;
+  wordOfTheDaySource: WordOfTheDaySource;
+  /** Whether a local notification announces each day's word. */
+  wordOfTheDayReminder: boolean;
+  wordOfTheDayHour: number;
+  wordOfTheDayMinute: number;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  language: DEFAULT_LANGUAGE,
+  theme: 'system',
+  fontScale: 1,
+  historySize: 500,
+  recentSearchCount: 5,
+  autoPlayPronunciation: false,
+  cacheMaxBytes: DEFAULT_CACHE_MAX_BYTES,
+  providerId: 'free-dictionary',
+  speechRate: 1,
+  speechPitch: 1,
+  wordOfTheDaySource: 'curated',
+  wordOfTheDayReminder: false,
+  wordOfTheDayHour: 9,
+  wordOfTheDayMinute: 0,
+};
+
+type Listener = (preferences: Preferences) => void;
+
+let preferences: Preferences | null = null;
+let loading: Promise<Preferences> | null = null;
+const listeners = new Set<Listener>();
+
+export const loadPreferences = (): Promise<Preferences> => {
+  if (preferences) return Promise.resolve(preferences);
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(PREFERENCES_KEY);
+        preferences = { ...DEFAULT_PREFERENCES, ...(raw ? JSON.parse(raw) : {}) };
+      } catch (error) {
+        console.error('Failed to load preferences', error);
+        preferences = { ...DEFAULT_PREFERENCES };
+      }
+      return preferences!;
+    })();
+  }
+  return loading;
+};
+
+export const getPreferences = () => preferences ?? DEFAULT_PREFERENCES;
+
+export const subscribePreferences = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const updatePreferences = async (changes: Partial<Preferences>) => {
+  const next = { ...(await loadPreferences()), ...changes };
+  preferences = next;
+  listeners.forEach((listener) => listener(next));
+  await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(next));
+};
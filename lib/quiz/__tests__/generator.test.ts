@@ -0,0 +1,96 @@
+import { WordData } from '@/lib/dictionary/types';
+import { buildQuiz, ChoiceQuestion, isCorrectAnswer, QuizQuestion } from '@/lib/quiz';
+
+const entry = (
+  word: string,
+  partOfSpeech: string,
+  definition: string,
+  synonyms: string[] = [],
+  antonyms: string[] = [],
+): WordData[] => [{ word, phonetics: [], meanings: [{ partOfSpeech, definitions: [{ definition }], synonyms, antonyms }] }];
+
+const sources: WordData[][] = [
+  entry('happy', 'adjective', 'Feeling pleasure.', ['glad'], ['sad']),
+  entry('quick', 'adjective', 'Moving fast.', ['fast'], ['slow']),
+  entry('tall', 'adjective', 'Of great height.', ['lofty'], ['short']),
+  // The only verb: no other verb can supply wrong answers for it.
+  entry('run', 'verb', 'Move swiftly on foot.', ['sprint'], ['walk']),
+];
+
+const ADJECTIVE_DEFINITIONS = ['Feeling pleasure.', 'Moving fast.', 'Of great height.'];
+
+// A small linear congruential generator so each seed gives the same quiz every run.
+const seeded = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+};
+
+const choiceQuestions = (questions: QuizQuestion[]) => questions as ChoiceQuestion[];
+
+describe('buildQuiz', () => {
+  it.each([1, 2, 3])('draws wrong definitions from the same part of speech (seed %i)', (seed) => {
+    const questions = choiceQuestions(buildQuiz(sources, 'definition', { random: seeded(seed) }));
+
+    expect(questions.map((question) => question.word).sort()).toEqual(['happy', 'quick', 'tall']);
+    questions.forEach((question) => {
+      expect(question.partOfSpeech).toBe('adjective');
+      expect(question.choices).toHaveLength(3);
+      expect(question.choices.filter((choice) => choice === question.answer)).toHaveLength(1);
+      expect(question.choices.every((choice) => ADJECTIVE_DEFINITIONS.includes(choice))).toBe(true);
+    });
+  });
+
+  it('asks for the word’s own definition', () => {
+    const questions = choiceQuestions(buildQuiz(sources, 'definition', { random: seeded(4) }));
+
+    expect(questions.find((question) => question.word === 'quick')?.answer).toBe('Moving fast.');
+  });
+
+  it('skips words with too few same-part-of-speech distractors', () => {
+    const questions = buildQuiz(sources, 'synonym', { random: seeded(5) });
+
+    expect(questions.map((question) => question.word)).not.toContain('run');
+  });
+
+  it.each([1, 2, 3])('never offers a word related to the question as a wrong synonym (seed %i)', (seed) => {
+    const questions = choiceQuestions(buildQuiz(sources, 'synonym', { random: seeded(seed) }));
+    const happy = questions.find((question) => question.word === 'happy')!;
+
+    expect(happy.answer).toBe('glad');
+    expect(happy.choices).toContain('glad');
+    expect(happy.choices).not.toContain('happy');
+    expect(happy.choices).not.toContain('sad');
+    expect(happy.choices).not.toContain('sprint');
+  });
+
+  it('stops at the requested number of questions', () => {
+    expect(buildQuiz(sources, 'definition', { count: 2, random: seeded(6) })).toHaveLength(2);
+  });
+
+  it('hides the headword in spelling hints', () => {
+    const questions = buildQuiz([entry('echo', 'noun', 'An echo is a repeated sound.')], 'spelling');
+
+    expect(questions).toEqual([
+      expect.objectContaining({ mode: 'spelling', answer: 'echo', hint: 'An ____ is a repeated sound.' }),
+    ]);
+  });
+});
+
+describe('isCorrectAnswer', () => {
+  const spelling: QuizQuestion = { mode: 'spelling', word: 'café', partOfSpeech: 'noun', hint: '', answer: 'café' };
+
+  it('ignores case, surrounding space and Unicode composition in spelling answers', () => {
+    expect(isCorrectAnswer(spelling, ' CAFÉ ')).toBe(true);
+    expect(isCorrectAnswer(spelling, 'cafe')).toBe(false);
+  });
+
+  it('needs the exact choice for choice questions', () => {
+    const [question] = choiceQuestions(buildQuiz(sources, 'definition', { count: 1, random: seeded(7) }));
+
+    expect(isCorrectAnswer(question, question.answer)).toBe(true);
+    expect(isCorrectAnswer(question, question.answer.toUpperCase())).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import type { AsyncStorageStatic } from '@react-native-async-storage/async-storage';
+
+let scores: typeof import('@/lib/quiz/scores');
+let AsyncStorage: AsyncStorageStatic;
+
+const day = (date: number, hour = 12) => new Date(2026, 0, date, hour).getTime();
+
+// The stats are cached in the module, so every test starts from a fresh copy and empty storage.
+beforeEach(async () => {
+  jest.isolateModules(() => {
+    scores = jest.requireActual('@/lib/quiz/scores');
+    AsyncStorage = jest.requireMock('@react-native-async-storage/async-storage');
+  });
+  await AsyncStorage.clear();
+});
+
+describe('quiz answers', () => {
+  it('counts answers and keeps the longest streak of correct ones', async () => {
+    for (const correct of [true, true, true, false, true]) {
+      await scores.recordAnswer('definition', correct);
+    }
+
+    expect(scores.modeStats(await scores.loadQuizStats(), 'definition')).toMatchObject({
+      answered: 5,
+      correct: 4,
+      streak: 1,
+      bestStreak: 3,
+    });
+  });
+
+  it('keeps each mode separate', async () => {
+    await scores.recordAnswer('definition', true);
+    await scores.recordAnswer('spelling', false);
+
+    const stats = await scores.loadQuizStats();
+    expect(scores.modeStats(stats, 'definition').streak).toBe(1);
+    expect(scores.modeStats(stats, 'spelling')).toMatchObject({ answered: 1, correct: 0, streak: 0 });
+    expect(scores.modeStats(stats, 'antonym').answered).toBe(0);
+  });
+});
+
+describe('quiz sessions', () => {
+  it('keeps the best score across sessions', async () => {
+    await scores.recordSession('synonym', 3, 10, day(10));
+    await scores.recordSession('synonym', 7, 10, day(10));
+    await scores.recordSession('synonym', 5, 10, day(10));
+
+    expect(scores.modeStats(await scores.loadQuizStats(), 'synonym')).toMatchObject({ sessions: 3, bestScore: 0.7 });
+  });
+
+  it('ignores sessions without questions', async () => {
+    await scores.recordSession('synonym', 0, 0, day(10));
+
+    expect(await scores.loadQuizStats()).toEqual({ modes: {}, dayStreak: 0 });
+  });
+
+  it('extends the day streak once per calendar day', async () => {
+    await scores.recordSession('definition', 1, 1, day(10, 23));
+    await scores.recordSession('definition', 1, 1, day(11, 0));
+    await scores.recordSession('definition', 1, 1, day(11, 18));
+
+    const stats = await scores.loadQuizStats();
+    expect(stats.dayStreak).toBe(2);
+    expect(scores.currentDayStreak(stats, day(12))).toBe(2);
+  });
+
+  it('starts the day streak over after a missed day', async () => {
+    await scores.recordSession('definition', 1, 1, day(10));
+    await scores.recordSession('definition', 1, 1, day(11));
+
+    expect(scores.currentDayStreak(await scores.loadQuizStats(), day(13))).toBe(0);
+
+    await scores.recordSession('definition', 1, 1, day(13));
+    expect((await scores.loadQuizStats()).dayStreak).toBe(1);
+  });
+
+  it('saves the stats', async () => {
+    await scores.recordAnswer('definition', true);
+
+    expect(JSON.parse((await AsyncStorage.getItem('quizStats'))!).modes.definition.correct).toBe(1);
+  });
+});
@@ -0,0 +1,172 @@
+import { Definition, Meaning, WordData } from '@/lib/dictionary/types';
+
+export type QuizMode = 'definition' | 'synonym' | 'antonym' | 'spelling';
+
+export interface ChoiceQuestion {
+  mode: 'definition' | 'synonym' | 'antonym';
+  word: string;
+  partOfSpeech: string;
+  choices: string[];
+  answer: string;
+}
+
+export interface SpellingQuestion {
+  mode: 'spelling';
+  word: string;
+  partOfSpeech: string;
+  /** Recording to play; when missing the word is read out by the speech engine. */
+  audio?: string;
+  hint: string;
+  answer: string;
+}
+
+export type QuizQuestion = ChoiceQuestion | SpellingQuestion;
+
+export interface QuizOptions {
+  count?: number;
+  choices?: number;
+  random?: () => number;
+}
+
+const DEFAULT_QUESTION_COUNT = 10;
+const DEFAULT_CHOICE_COUNT = 4;
+
+// Each word contributes at most one question; entries for the same headword are pooled.
+interface QuizWord {
+  word: string;
+  entries: WordData[];
+  meanings: Meaning[];
+}
+
+const shuffle = <T>(items: T[], random: () => number) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const pick = <T>(items: T[], random: () => number) => items[Math.floor(random() * items.length)];
+
+const sameWord = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const relatedWords = (meaning: Meaning, kind: 'synonyms' | 'antonyms') =>
+  Array.from(
+    new Set([...(meaning[kind] ?? []), ...meaning.definitions.flatMap((definition: Definition) => definition[kind] ?? [])]),
+  );
+
+const toQuizWords = (sources: WordData[][]): QuizWord[] => {
+  const words = new Map<string, QuizWord>();
+  sources.flat().forEach((entry) => {
+    const key = entry.word.trim().toLowerCase();
+    const existing = words.get(key);
+    if (existing) {
+      existing.entries.push(entry);
+      existing.meanings.push(...entry.meanings);
+    } else {
+      words.set(key, { word: entry.word, entries: [entry], meanings: [...entry.meanings] });
+    }
+  });
+  return Array.from(words.values());
+};
+
+/**
+ * Wrong answers for a question about `word`: values drawn from the other words'
+ * meanings with the same part of speech, never one of the word's own values.
+ */
+const distractors = (
+  words: QuizWord[],
+  word: QuizWord,
+  partOfSpeech: string,
+  valuesOf: (meaning: Meaning, owner: QuizWord) => string[],
+  exclude: string[],
+) => {
+  const pool = words
+    .filter((other) => other !== word)
+    .flatMap((other) =>
+      other.meanings.filter((meaning) => meaning.partOfSpeech === partOfSpeech).flatMap((meaning) => valuesOf(meaning, other)),
+    )
+    .filter((value) => !exclude.some((excluded) => sameWord(excluded, value)));
+  return Array.from(new Set(pool));
+};
+
+const choiceQuestion = (
+  mode: ChoiceQuestion['mode'],
+  words: QuizWord[],
+  word: QuizWord,
+  count: number,
+  random: () => number,
+): ChoiceQuestion | null => {
+  const candidates = shuffle(word.meanings, random);
+  for (const meaning of candidates) {
+    let answers: string[];
+    let valuesOf: (meaning: Meaning, owner: QuizWord) => string[];
+    let exclude: string[];
+    if (mode === 'definition') {
+      answers = meaning.definitions.map((definition) => definition.definition);
+      valuesOf = (related) => related.definitions.map((definition) => definition.definition);
+      exclude = answers;
+    } else {
+      const kind = mode === 'synonym' ? 'synonyms' : 'antonyms';
+      answers = relatedWords(meaning, kind);
+      // Other words' headwords and related words, but never something related to this word either way.
+      valuesOf = (related, owner) => [owner.word, ...relatedWords(related, 'synonyms'), ...relatedWords(related, 'antonyms')];
+      exclude = [word.word, ...word.meanings.flatMap((m) => [...relatedWords(m, 'synonyms'), ...relatedWords(m, 'antonyms')])];
+    }
+    if (answers.length === 0) continue;
+
+    const wrong = distractors(words, word, meaning.partOfSpeech, valuesOf, exclude);
+    if (wrong.length < 2) continue;
+    const answer = pick(answers, random);
+    return {
+      mode,
+      word: word.word,
+      partOfSpeech: meaning.partOfSpeech,
+      choices: shuffle([answer, ...shuffle(wrong, random).slice(0, count - 1)], random),
+      answer,
+    };
+  }
+  return null;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const spellingQuestion = (word: QuizWord, random: () => number): SpellingQuestion | null => {
+  const meaning = pick(word.meanings, random);
+  const definition = meaning?.definitions[0]?.definition;
+  if (!definition) return null;
+  // Definitions sometimes use the headword itself, which would give the answer away.
+  const hint = definition.replace(new RegExp(escapeRegExp(word.word), 'gi'), '____');
+  return {
+    mode: 'spelling',
+    word: word.word,
+    partOfSpeech: meaning.partOfSpeech,
+    audio: word.entries.flatMap((entry) => entry.phonetics).find((phonetic) => phonetic.audio)?.audio,
+    hint,
+    answer: word.word,
+  };
+};
+
+/**
+ * Builds up to `count` questions from the given entries. Words that cannot
+ * support the mode (no antonyms, too few same-part-of-speech distractors) are skipped.
+ */
+export const buildQuiz = (sources: WordData[][], mode: QuizMode, options: QuizOptions = {}): QuizQuestion[] => {
+  const { count = DEFAULT_QUESTION_COUNT, choices = DEFAULT_CHOICE_COUNT, random = Math.random } = options;
+  const words = toQuizWords(sources);
+  const questions: QuizQuestion[] = [];
+  for (const word of shuffle(words, random)) {
+    if (questions.length >= count) break;
+    const question =
+      mode === 'spelling' ? spellingQuestion(word, random) : choiceQuestion(mode, words, word, choices, random);
+    if (question) questions.push(question);
+  }
+  return questions;
+};
+
+/** Spelling answers ignore case, surrounding space and Unicode composition. */
+export const isCorrectAnswer = (question: QuizQuestion, response: string) =>
+  question.mode === 'spelling'
+    ? sameWord(response.normalize('NFC'), question.answer.normalize('NFC'))
+    : response === question.answer;
@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DAY_MS, startOfDay } from '@/lib/dates';
+import { QuizMode } from './generator';
+
+const QUIZ_STATS_KEY = 'quizStats';
+
+export interface ModeStats {
+  sessions: number;
+  answered: number;
+  correct: number;
+  /** Best session result as a fraction of questions answered correctly. */
+  bestScore: number;
+  /** Consecutive correct answers, across sessions. */
+  streak: number;
+  bestStreak: number;
+}
+
+export interface QuizStats {
+  modes: Partial<Record<QuizMode, ModeStats>>;
+  /** Consecutive days with at least one finished session. */
+  dayStreak: number;
+  lastPlayedDay?: number;
+}
+
+type Listener = (stats: QuizStats) => void;
+
+const EMPTY_MODE_STATS: ModeStats = { sessions: 0, answered: 0, correct: 0, bestScore: 0, streak: 0, bestStreak: 0 };
+
+let stats: QuizStats | null = null;
+const listeners = new Set<Listener>();
+
+const persist = async (next: QuizStats) => {
+  stats = next;
+  listeners.forEach((listener) => listener(next));
+  await AsyncStorage.setItem(QUIZ_STATS_KEY, JSON.stringify(next));
+};
+
+export const modeStats = (current: QuizStats, mode: QuizMode): ModeStats => current.modes[mode] ?? EMPTY_MODE_STATS;
+
+export const loadQuizStats = async (): Promise<QuizStats> => {
+  if (stats) return stats;
+  try {
+    const raw = await AsyncStorage.getItem(QUIZ_STATS_KEY);
+    stats = raw ? JSON.parse(raw) : { modes: {}, dayStreak: 0 };
+  } catch (error) {
+    console.error('Failed to load quiz stats', error);
+    stats = { modes: {}, dayStreak: 0 };
+  }
+  return stats!;
+};
+
+export const subscribeQuizStats = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordAnswer = async (mode: QuizMode, correct: boolean) => {
+  const current = await loadQuizStats();
+  const previous = modeStats(current, mode);
+  const streak = correct ? previous.streak + 1 : 0;
+  await persist({
+    ...current,
+    modes: {
+      ...current.modes,
+      [mode]: {
+        ...previous,
+        answered: previous.answered + 1,
+        correct: previous.correct + (correct ? 1 : 0),
+        streak,
+        bestStreak: Math.max(previous.bestStreak, streak),
+      },
+    },
+  });
+};
+
+/** Counts a finished session and extends the daily streak if yesterday was also played. */
+export const recordSession = async (mode: QuizMode, correct: number, total: number, now = Date.now()) => {
+  if (total === 0) return;
+  const current = await loadQuizStats();
+  const previous = modeStats(current, mode);
+  const today = startOfDay(now);
+  let dayStreak = current.dayStreak;
+  if (current.lastPlayedDay !== today) {
+    dayStreak = current.lastPlayedDay === startOfDay(today - DAY_MS / 2) ? dayStreak + 1 : 1;
+  }
+  await persist({
+    modes: {
+      ...current.modes,
+      [mode]: { ...previous, sessions: previous.sessions + 1, bestScore: Math.max(previous.bestScore, correct / total) },
+    },
+    dayStreak,
+    lastPlayedDay: today,
+  });
+};
+
+/** The day streak only counts while it is unbroken: played today or yesterday. */
+export const currentDayStreak = (current: QuizStats, now = Date.now()) => {
+  const today = startOfDay(now);
+  return current.lastPlayedDay === today || current.lastPlayedDay === startOfDay(today - DAY_MS / 2)
+    ? current.dayStreak
+    : 0;
+};
@@ -0,0 +1,128 @@
+import { normalizeTerm } from '@/lib/language';
+import { getInstalledPackMeta, getOfflineIndex, tokenize } from '@/lib/offline';
+import { KnownEntries, loadKnownEntries } from '@/lib/studyWords';
+
+export interface ReverseMatch {
+  word: string;
+  language: string;
+  partOfSpeech: string;
+  /** The definition that best matches the description. */
+  definition: string;
+  /** Stemmed query terms found in the definition, for highlighting. */
+  terms: string[];
+  score: number;
+}
+
+export interface ReverseIndex {
+  size: number;
+  search(description: string, limit?: number): ReverseMatch[];
+}
+
+interface IndexedDefinition {
+  word: string;
+  language: string;
+  partOfSpeech: string;
+  definition: string;
+  terms: Set<string>;
+}
+
+// A trailing "e" goes too, so "place", "places" and "placed" all reduce to "plac".
+const SUFFIXES = ['ing', 'ed', 'es', 's', 'e'];
+
+/** Strips common inflections so "heights" matches "height" and "describing" matches "describes". */
+export const stem = (token: string) => {
+  const suffix = SUFFIXES.find((candidate) => token.endsWith(candidate) && token.length - candidate.length >= 3);
+  return suffix ? token.slice(0, -suffix.length) : token;
+};
+
+const termsOf = (text: string) => new Set(tokenize(text).map(stem));
+
+/**
+ * Indexes every definition of the given entries for reverse lookup. A
+ * description scores each definition by the query terms it shares, weighted
+ * so rare terms count for more than common ones; each headword is ranked by
+ * its best definition.
+ */
+export const createReverseIndex = (sources: KnownEntries[]): ReverseIndex => {
+  const definitions: IndexedDefinition[] = [];
+  const frequency = new Map<string, number>();
+
+  sources.forEach(({ entries, language }) =>
+    entries.forEach((entry) =>
+      entry.meanings.forEach((meaning) =>
+        meaning.definitions.forEach(({ definition }) => {
+          const terms = termsOf(definition);
+          terms.forEach((term) => frequency.set(term, (frequency.get(term) ?? 0) + 1));
+          definitions.push({ word: entry.word, language, partOfSpeech: meaning.partOfSpeech, definition, terms });
+        }),
+      ),
+    ),
+  );
+
+  const weightOf = (term: string) => Math.log(1 + definitions.length / (frequency.get(term) ?? 1));
+
+  return {
+    size: definitions.length,
+    search(description, limit = 20) {
+      const query = Array.from(termsOf(description));
+      if (query.length === 0) return [];
+
+      const best = new Map<string, ReverseMatch>();
+      definitions.forEach((indexed) => {
+        const terms = query.filter((term) => indexed.terms.has(term));
+        if (terms.length === 0) return;
+        // Among equally matching definitions, the tighter one wins.
+        const score =
+          terms.reduce((sum, term) => sum + weightOf(term), 0) + terms.length / (indexed.terms.size + query.length);
+        const key = `${indexed.language}:${normalizeTerm(indexed.word, indexed.language)}`;
+        const current = best.get(key);
+        if (!current || score > current.score) {
+          best.set(key, {
+            word: indexed.word,
+            language: indexed.language,
+            partOfSpeech: indexed.partOfSpeech,
+            definition: indexed.definition,
+            terms,
+            score,
+          });
+        }
+      });
+
+      return Array.from(best.values())
+        .sort((a, b) => b.score - a.score || a.word.localeCompare(b.word))
+        .slice(0, limit);
+    },
+  };
+};
+
+/** Splits text into runs that do and do not contain one of the matched terms. */
+export const highlightTerms = (text: string, terms: string[]) => {
+  const matched = new Set(terms);
+  return text
+    .split(/([\p{L}\p{N}'-]+)/u)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: matched.has(stem(part.toLowerCase())) }));
+};
+
+/**
+ * Builds the reverse index from everything available without a network:
+ * saved words, cached lookups and the offline pack. Each headword is taken
+ * from the first source that has it.
+ */
+export const loadReverseIndex = async (): Promise<ReverseIndex> => {
+  const [known, packIndex, packMeta] = await Promise.all([loadKnownEntries(), getOfflineIndex(), getInstalledPackMeta()]);
+
+  const seen = new Set<string>();
+  const sources = [
+    ...known,
+    ...packIndex.headwords().map((headword) => ({ entries: packIndex.lookup(headword), language: packMeta.language })),
+  ].filter(({ entries, language }) => {
+    if (entries.length === 0) return false;
+    const key = `${language}:${normalizeTerm(entries[0].word, language)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return createReverseIndex(sources);
+};
@@ -0,0 +1,111 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DAY_MS, startOfDay } from '@/lib/dates';
+import { WordData } from '@/lib/dictionary/types';
+import { normalizeTerm } from '@/lib/language';
+
+const REVIEW_KEY = 'reviewSchedule';
+
+export const DEFAULT_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+/** SM-2 recall quality: 0 is a blackout, 5 a perfect response. Below 3 counts as a lapse. */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewSchedule {
+  word: string;
+  ease: number;
+  interval: number;
+  repetitions: number;
+  due: number;
+  lastReviewedAt?: number;
+}
+
+export interface ReviewCard {
+  word: string;
+  entries: WordData[];
+  schedule?: ReviewSchedule;
+}
+
+type ScheduleMap = Record<string, ReviewSchedule>;
+
+const normalizeKey = (word: string) => normalizeTerm(word);
+
+export const newSchedule = (word: string, now = Date.now()): ReviewSchedule => ({
+  word,
+  ease: DEFAULT_EASE,
+  interval: 0,
+  repetitions: 0,
+  due: now,
+});
+
+/** Applies one SM-2 review step and returns the next schedule. */
+export const scheduleReview = (schedule: ReviewSchedule, grade: ReviewGrade, now = Date.now()): ReviewSchedule => {
+  const lapsed = grade < 3;
+  const repetitions = lapsed ? 0 : schedule.repetitions + 1;
+  let interval = 1;
+  if (!lapsed && repetitions === 2) interval = 6;
+  else if (!lapsed && repetitions > 2) interval = Math.round(schedule.interval * schedule.ease);
+  const ease = Math.max(MIN_EASE, schedule.ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+  return {
+    ...schedule,
+    ease,
+    interval,
+    repetitions,
+    due: startOfDay(now) + interval * DAY_MS,
+    lastReviewedAt: now,
+  };
+};
+
+export const loadSchedules = async (): Promise<ScheduleMap> => {
+  try {
+    const raw = await AsyncStorage.getItem(REVIEW_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error('Failed to load review schedule', error);
+    return {};
+  }
+};
+
+// Saves are read-modify-write across awaits, so they are chained to keep grades given in quick succession.
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Stores the schedule once every save queued before it has been written. */
+export const saveSchedule = (schedule: ReviewSchedule) => {
+  const task = async () => {
+    const schedules = await loadSchedules();
+    schedules[normalizeKey(schedule.word)] = schedule;
+    await AsyncStorage.setItem(REVIEW_KEY, JSON.stringify(schedules));
+  };
+  const next = queue.then(task, task);
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+/** Pairs each source word with its stored schedule, dropping duplicates by headword. */
+export const buildDeck = (sources: WordData[][], schedules: ScheduleMap): ReviewCard[] => {
+  const seen = new Set<string>();
+  return sources
+    .filter((entries) => entries.length > 0)
+    .filter((entries) => {
+      const key = normalizeKey(entries[0].word);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((entries) => ({ word: entries[0].word, entries, schedule: schedules[normalizeKey(entries[0].word)] }));
+};
+
+/** Cards due now, reviewed cards first (oldest due first), then up to `newLimit` unseen cards. */
+export const dueCards = (deck: ReviewCard[], now = Date.now(), newLimit = 20) => {
+  const reviews = deck
+    .filter((card) => card.schedule && card.schedule.due <= now)
+    .sort((a, b) => a.schedule!.due - b.schedule!.due);
+  const unseen = deck.filter((card) => !card.schedule).slice(0, newLimit);
+  return [...reviews, ...unseen];
+};
+
+/** Words whose next review falls on the calendar day after `now`. */
+export const dueTomorrow = (schedules: ReviewSchedule[], now = Date.now()) => {
+  const tomorrow = startOfDay(now) + DAY_MS;
+  return schedules.filter((schedule) => schedule.due >= tomorrow && schedule.due < tomorrow + DAY_MS);
+};
@@ -0,0 +1,37 @@
+import { lookupCache } from './cache/lookupCache';
+import { getProvider, setActiveProvider } from './dictionary/registry';
+import { trimHistory } from './history';
+import { DEFAULT_PREFERENCES, loadPreferences, Preferences, subscribePreferences } from './preferences';
+
+const applyProvider = (providerId: string) => {
+  try {
+    getProvider(providerId);
+    setActiveProvider(providerId);
+  } catch {
+    // A provider saved by another build may not be registered here; keep the default.
+  }
+};
+
+/** Pushes the preferences that configure non-UI modules into those modules. */
+export const applyPreferences = async (preferences: Preferences) => {
+  applyProvider(preferences.providerId);
+  await Promise.all([lookupCache.setMaxBytes(preferences.cacheMaxBytes), trimHistory(preferences.historySize)]);
+};
+
+const syncPreferences = (preferences: Preferences) =>
+  applyPreferences(preferences).catch((error) => {
+    console.error('Failed to apply preferences', error);
+  });
+
+/** Applies the stored preferences now and again whenever they change; returns the unsubscribe. */
+export const startPreferenceSync = () => {
+  loadPreferences()
+    .catch((error) => {
+      console.error('Failed to load preferences', error);
+      return DEFAULT_PREFERENCES;
+    })
+    .then(syncPreferences);
+  return subscribePreferences((preferences) => {
+    syncPreferences(preferences);
+  });
+};
@@ -0,0 +1,59 @@
+import * as Speech from 'expo-speech';
+
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  language: string;
+}
+
+export interface SpeechOptions {
+  language?: string;
+  rate?: number;
+  pitch?: number;
+  voice?: string;
+}
+
+/** Text-to-speech backend. Tests swap in their own implementation via `setSpeechEngine`. */
+export interface SpeechEngine {
+  /** Resolves once the utterance finishes or is stopped. */
+  speak(text: string, options?: SpeechOptions): Promise<void>;
+  stop(): Promise<void>;
+  getVoices(language?: string): Promise<SpeechVoice[]>;
+}
+
+export const createExpoSpeechEngine = (): SpeechEngine => ({
+  speak: (text, { language, rate, pitch, voice } = {}) =>
+    new Promise((resolve, reject) => {
+      Speech.speak(text, {
+        language,
+        rate,
+        pitch,
+        voice,
+        onDone: () => resolve(),
+        onStopped: () => resolve(),
+        onError: (error) => reject(error),
+      });
+    }),
+  stop: () => Speech.stop(),
+  getVoices: async (language) => {
+    const voices = await Speech.getAvailableVoicesAsync();
+    return voices
+      .filter((voice) => !language || voice.language.toLowerCase().startsWith(language.toLowerCase()))
+      .map((voice) => ({ id: voice.identifier, name: voice.name, language: voice.language }));
+  },
+});
+
+/** Does nothing and finishes immediately; handy for tests and platforms without TTS. */
+export const createSilentSpeechEngine = (): SpeechEngine => ({
+  speak: async () => undefined,
+  stop: async () => undefined,
+  getVoices: async () => [],
+});
+
+let engine: SpeechEngine = createExpoSpeechEngine();
+
+export const getSpeechEngine = () => engine;
+
+export const setSpeechEngine = (next: SpeechEngine) => {
+  engine = next;
+};
@@ -0,0 +1,49 @@
+import { getPreferences } from '@/lib/preferences';
+import { getSpeechEngine } from './engine';
+
+type Listener = (utteranceId: string | null) => void;
+
+let speakingId: string | null = null;
+const listeners = new Set<Listener>();
+
+const setSpeaking = (id: string | null) => {
+  speakingId = id;
+  listeners.forEach((listener) => listener(id));
+};
+
+export const getSpeakingId = () => speakingId;
+
+export const subscribeSpeech = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Reads `text` aloud with the user's rate, pitch and voice, interrupting any
+ * utterance already in progress. `id` lets the UI mark which control is active.
+ */
+export const speak = async (id: string, text: string, language?: string) => {
+  const engine = getSpeechEngine();
+  const { speechRate, speechPitch, speechVoice, language: preferredLanguage } = getPreferences();
+  if (speakingId) await engine.stop();
+  setSpeaking(id);
+  try {
+    await engine.speak(text, {
+      language: language ?? preferredLanguage,
+      rate: speechRate,
+      pitch: speechPitch,
+      voice: speechVoice,
+    });
+  } catch (error) {
+    console.error('Speech failed', error);
+  } finally {
+    if (speakingId === id) setSpeaking(null);
+  }
+};
+
+export const stopSpeaking = async () => {
+  setSpeaking(null);
+  await getSpeechEngine().stop();
+};
@@ -0,0 +1,32 @@
+import { lookupCache } from '@/lib/cache/lookupCache';
+import { cacheKey, getActiveProvider } from '@/lib/dictionary';
+import { WordData } from '@/lib/dictionary/types';
+import { loadFavorites } from '@/lib/favorites';
+import { loadHistory } from '@/lib/history';
+
+export interface KnownEntries {
+  entries: WordData[];
+  language: string;
+}
+
+/**
+ * Entries the user has met, with the language they were looked up in. Saved
+ * words carry their own snapshot; looked-up words are only available while
+ * their entry is cached, and reading them does not count as a cache use.
+ */
+export const loadKnownEntries = async (): Promise<KnownEntries[]> => {
+  const [favorites, history] = await Promise.all([loadFavorites(), loadHistory()]);
+  const providerId = getActiveProvider().id;
+  const lookedUp = history.filter((entry) => entry.status === 'success');
+  const cached = await lookupCache.peekMany(
+    lookedUp.map((entry) => cacheKey(providerId, entry.word, entry.language)),
+  );
+  return [
+    ...favorites.map(({ entries, language }) => ({ entries, language })),
+    ...cached.flatMap((result, index) => (result ? [{ entries: result.entries, language: lookedUp[index].language }] : [])),
+  ];
+};
+
+/** Entries the user has met, for review and practice. */
+export const loadStudyWords = async (): Promise<WordData[][]> =>
+  (await loadKnownEntries()).map(({ entries }) => entries);
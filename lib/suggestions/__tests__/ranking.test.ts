@@ -0,0 +1,61 @@
+import { COMMON_WORDS, prefixSuggestions, spellingSuggestions, typoDistance } from '@/lib/suggestions';
+
+describe('typoDistance', () => {
+  it('charges half for a neighbouring key and a full edit for a distant one', () => {
+    expect(typoDistance('cat', 'Cat')).toBe(0);
+    expect(typoDistance('cst', 'cat')).toBe(0.5);
+    expect(typoDistance('cpt', 'cat')).toBe(1);
+  });
+
+  it('counts swapped letters as one edit', () => {
+    expect(typoDistance('teh', 'the')).toBe(1);
+    expect(typoDistance('recieve', 'receive')).toBe(1);
+  });
+
+  it('counts missing and extra letters', () => {
+    expect(typoDistance('helo', 'hello')).toBe(1);
+    expect(typoDistance('helllo', 'hello')).toBe(1);
+  });
+});
+
+describe('spellingSuggestions', () => {
+  it('ranks a slip onto a neighbouring key above a distant substitution', () => {
+    expect(spellingSuggestions('hoise', ['horse', 'house'])).toEqual(['house', 'horse']);
+  });
+
+  it('ranks a transposition as a single edit', () => {
+    expect(spellingSuggestions('hte', ['hat', 'the'])).toEqual(['the', 'hat']);
+  });
+
+  it('leaves out words too far away in length or edits', () => {
+    expect(spellingSuggestions('cat', ['catalog', 'mop', 'cart'])).toEqual(['cart']);
+  });
+
+  it('never suggests the term itself', () => {
+    expect(spellingSuggestions('Cat', ['cat', 'cot'])).toEqual(['cot']);
+  });
+});
+
+describe('prefixSuggestions', () => {
+  const history = ['Apple', 'apricot'];
+  const favorites = ['apple', 'april'];
+
+  it('merges the sources in order and keeps the first spelling of each word', () => {
+    expect(prefixSuggestions('ap', [...history, ...favorites, ...COMMON_WORDS])).toEqual([
+      'Apple',
+      'apricot',
+      'april',
+      'apart',
+      'apology',
+      'apparent',
+    ]);
+  });
+
+  it('leaves out the word already typed', () => {
+    expect(prefixSuggestions(' APPLE ', [...history, ...favorites, 'applesauce'])).toEqual(['applesauce']);
+  });
+
+  it('suggests nothing for an empty prefix', () => {
+    expect(prefixSuggestions('  ', COMMON_WORDS)).toEqual([]);
+  });
+});
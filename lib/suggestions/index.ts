@@ -0,0 +1,2 @@
+export * from './ranking';
+export { COMMON_WORDS } from './wordlist';
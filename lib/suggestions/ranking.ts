@@ -0,0 +1,80 @@
+const QWERTY_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+const KEY_POSITIONS = new Map<string, { row: number; col: number }>();
+QWERTY_ROWS.forEach((row, rowIndex) =>
+  row.split('').forEach((key, col) => KEY_POSITIONS.set(key, { row: rowIndex, col: col + rowIndex * 0.5 })),
+);
+
+const areAdjacentKeys = (a: string, b: string) => {
+  const first = KEY_POSITIONS.get(a);
+  const second = KEY_POSITIONS.get(b);
+  if (!first || !second) return false;
+  return Math.abs(first.row - second.row) <= 1 && Math.abs(first.col - second.col) <= 1;
+};
+
+const substitutionCost = (a: string, b: string) => {
+  if (a === b) return 0;
+  return areAdjacentKeys(a, b) ? 0.5 : 1;
+};
+
+/**
+ * Damerau–Levenshtein distance where substituting a neighbouring QWERTY key
+ * costs half, since fat-finger typos are far more likely than random ones.
+ */
+export const typoDistance = (source: string, target: string) => {
+  const a = source.toLowerCase();
+  const b = target.toLowerCase();
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + substitutionCost(a[i - 1], b[j - 1]),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+const uniqueWords = (candidates: string[]) => {
+  const seen = new Set<string>();
+  return candidates.filter((word) => {
+    const key = word.toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/** Words starting with `prefix`, keeping the order of `candidates` so earlier sources rank first. */
+export const prefixSuggestions = (prefix: string, candidates: string[], limit = 6) => {
+  const needle = prefix.trim().toLowerCase();
+  if (!needle) return [];
+  return uniqueWords(candidates)
+    .filter((word) => {
+      const key = word.toLowerCase();
+      return key.startsWith(needle) && key !== needle;
+    })
+    .slice(0, limit);
+};
+
+/** Closest candidates to a misspelled term, ignoring anything further than `maxDistance` edits. */
+export const spellingSuggestions = (term: string, candidates: string[], limit = 5, maxDistance = 2) => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return [];
+  return uniqueWords(candidates)
+    .filter((word) => Math.abs(word.length - needle.length) <= maxDistance && word.toLowerCase() !== needle)
+    .map((word) => ({ word, distance: typoDistance(needle, word) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.word.localeCompare(b.word))
+    .slice(0, limit)
+    .map(({ word }) => word);
+};
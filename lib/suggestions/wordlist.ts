@@ -0,0 +1,90 @@
+/** Common English headwords used for autocomplete when history and favorites have no match. */
+export const COMMON_WORDS: string[] = [
+  'about', 'above', 'absence', 'absolute', 'abstract', 'abundant', 'academy', 'accept', 'access', 'accident',
+  'account', 'accurate', 'achieve', 'acquire', 'across', 'action', 'active', 'actual', 'adapt', 'address',
+  'adequate', 'adjust', 'admire', 'admit', 'adopt', 'advance', 'advantage', 'adventure', 'advice', 'affect',
+  'afford', 'afraid', 'agency', 'agenda', 'agree', 'ahead', 'alarm', 'album', 'alcohol', 'alert', 'alive',
+  'allow', 'almost', 'alone', 'along', 'already', 'although', 'always', 'amazing', 'ambition', 'amount',
+  'analysis', 'ancient', 'anger', 'angle', 'animal', 'announce', 'annual', 'answer', 'anxiety', 'anxious',
+  'apart', 'apology', 'apparent', 'appeal', 'appear', 'apple', 'apply', 'approach', 'approve', 'argue',
+  'argument', 'arrange', 'arrive', 'article', 'artist', 'aspect', 'assault', 'assess', 'asset', 'assist',
+  'assume', 'attach', 'attack', 'attempt', 'attend', 'attitude', 'attract', 'audience', 'author', 'average',
+  'avoid', 'award', 'aware', 'awful', 'balance', 'ballot', 'banana', 'bank', 'barrier', 'basic', 'battle',
+  'beach', 'beautiful', 'because', 'become', 'before', 'begin', 'behave', 'behind', 'believe', 'belong',
+  'beneath', 'benefit', 'beyond', 'bicycle', 'bitter', 'blanket', 'blind', 'blossom', 'border', 'borrow',
+  'bother', 'bottle', 'bottom', 'bounce', 'brave', 'bread', 'breathe', 'brief', 'bright', 'brilliant',
+  'broad', 'brother', 'budget', 'build', 'burden', 'butter', 'cabinet', 'calendar', 'campaign', 'cancel',
+  'candle', 'capable', 'capital', 'capture', 'careful', 'carry', 'castle', 'casual', 'category', 'caution',
+  'celebrate', 'center', 'century', 'certain', 'chair', 'challenge', 'chamber', 'champion', 'chance',
+  'change', 'chapter', 'character', 'charge', 'charity', 'cheap', 'check', 'cheerful', 'chemical', 'choice',
+  'circle', 'citizen', 'claim', 'classic', 'clean', 'clever', 'client', 'climate', 'climb', 'clock', 'close',
+  'cloud', 'coach', 'coast', 'coffee', 'collect', 'college', 'colour', 'column', 'combine', 'comfort',
+  'command', 'comment', 'common', 'company', 'compare', 'compete', 'complain', 'complete', 'complex',
+  'concept', 'concern', 'concert', 'conclude', 'condition', 'conduct', 'confirm', 'conflict', 'confuse',
+  'connect', 'consider', 'constant', 'contain', 'content', 'context', 'continue', 'contract', 'control',
+  'convince', 'cotton', 'council', 'count', 'courage', 'course', 'cousin', 'cover', 'create', 'credit',
+  'crisis', 'critic', 'crowd', 'culture', 'curious', 'current', 'custom', 'damage', 'dance', 'danger',
+  'daughter', 'debate', 'decade', 'decide', 'declare', 'decline', 'decrease', 'defend', 'define', 'degree',
+  'delay', 'deliver', 'demand', 'depend', 'deposit', 'depth', 'describe', 'desert', 'design', 'desire',
+  'detail', 'develop', 'device', 'dialogue', 'diamond', 'differ', 'digital', 'dinner', 'direct', 'discover',
+  'discuss', 'disease', 'display', 'distance', 'divide', 'doctor', 'document', 'double', 'doubt', 'dozen',
+  'drama', 'dream', 'drink', 'drive', 'eager', 'early', 'earth', 'easily', 'economy', 'edition', 'educate',
+  'effect', 'effort', 'either', 'elect', 'elegant', 'element', 'embrace', 'emerge', 'emotion', 'employ',
+  'empty', 'enable', 'encounter', 'encourage', 'energy', 'engage', 'engine', 'enhance', 'enjoy', 'enormous',
+  'enough', 'ensure', 'enter', 'entire', 'entry', 'equal', 'escape', 'essay', 'estate', 'evening', 'event',
+  'evidence', 'evolve', 'exact', 'examine', 'example', 'excellent', 'except', 'exchange', 'excite',
+  'exercise', 'exist', 'expand', 'expect', 'expense', 'expert', 'explain', 'explore', 'express', 'extend',
+  'extreme', 'fabric', 'factor', 'failure', 'faith', 'familiar', 'family', 'famous', 'fashion', 'father',
+  'fault', 'favour', 'feature', 'federal', 'feeling', 'fiction', 'field', 'figure', 'final', 'finance',
+  'finger', 'finish', 'flavour', 'flight', 'float', 'flower', 'focus', 'follow', 'foreign', 'forest',
+  'forget', 'formal', 'fortune', 'forward', 'foundation', 'fragile', 'frame', 'freedom', 'frequent',
+  'friend', 'frighten', 'future', 'gallery', 'garden', 'gather', 'gender', 'general', 'gentle', 'genuine',
+  'gesture', 'giant', 'glance', 'global', 'golden', 'govern', 'grace', 'gradual', 'grammar', 'grateful',
+  'gravity', 'greet', 'ground', 'growth', 'guarantee', 'guard', 'guess', 'guest', 'guide', 'guilty', 'habit',
+  'handle', 'happen', 'harbour', 'harmony', 'harvest', 'health', 'heart', 'heaven', 'height', 'helpful',
+  'heritage', 'hidden', 'highlight', 'history', 'holiday', 'honest', 'honour', 'horizon', 'hospital',
+  'humble', 'humour', 'hunger', 'hurry', 'identify', 'ignore', 'illegal', 'imagine', 'impact', 'imply',
+  'import', 'impose', 'improve', 'include', 'income', 'increase', 'indeed', 'indicate', 'industry', 'infant',
+  'influence', 'inform', 'initial', 'injury', 'innocent', 'insect', 'inside', 'insist', 'inspire', 'install',
+  'instance', 'instead', 'intend', 'interest', 'interior', 'interpret', 'interval', 'invest', 'invite',
+  'island', 'issue', 'jacket', 'journey', 'judge', 'justice', 'kitchen', 'knowledge', 'labour', 'ladder',
+  'language', 'laptop', 'launch', 'lawyer', 'leader', 'league', 'learn', 'leather', 'legend', 'leisure',
+  'lesson', 'letter', 'level', 'liberty', 'library', 'license', 'limit', 'listen', 'literal', 'little',
+  'local', 'logic', 'lonely', 'loyal', 'luxury', 'machine', 'magazine', 'magic', 'maintain', 'major',
+  'manage', 'manner', 'market', 'master', 'matter', 'measure', 'medium', 'member', 'memory', 'mental',
+  'mention', 'merchant', 'message', 'method', 'middle', 'mirror', 'mission', 'mixture', 'model', 'modern',
+  'moment', 'monitor', 'moral', 'mother', 'motion', 'mountain', 'museum', 'music', 'mystery', 'narrow',
+  'nation', 'native', 'nature', 'nearby', 'neither', 'nervous', 'neutral', 'normal', 'notice', 'novel',
+  'number', 'object', 'obtain', 'obvious', 'occasion', 'occupy', 'ocean', 'offer', 'office', 'option',
+  'orange', 'order', 'ordinary', 'origin', 'outcome', 'output', 'oxygen', 'package', 'palace', 'panel',
+  'parent', 'partner', 'passage', 'passion', 'patient', 'pattern', 'peace', 'people', 'perfect', 'perform',
+  'period', 'permit', 'person', 'phrase', 'physical', 'picture', 'pioneer', 'planet', 'pleasure', 'plenty',
+  'pocket', 'poetry', 'police', 'policy', 'polite', 'popular', 'portion', 'positive', 'possible', 'potato',
+  'poverty', 'powder', 'power', 'practice', 'praise', 'predict', 'prefer', 'prepare', 'present', 'preserve',
+  'pretty', 'prevent', 'price', 'pride', 'primary', 'prince', 'print', 'priority', 'prison', 'private',
+  'prize', 'problem', 'process', 'produce', 'profit', 'program', 'progress', 'project', 'promise', 'proof',
+  'proper', 'protect', 'proud', 'provide', 'public', 'purpose', 'puzzle', 'quality', 'quarter', 'question',
+  'quick', 'quiet', 'quote', 'rabbit', 'random', 'rapid', 'rather', 'reach', 'react', 'reason', 'recall',
+  'receive', 'recent', 'record', 'recover', 'reduce', 'reflect', 'reform', 'refuse', 'region', 'regret',
+  'reject', 'relate', 'relax', 'release', 'relief', 'remain', 'remark', 'remember', 'remote', 'remove',
+  'repair', 'repeat', 'replace', 'reply', 'report', 'request', 'require', 'rescue', 'research', 'reserve',
+  'resist', 'resolve', 'resource', 'respect', 'respond', 'result', 'retain', 'return', 'reveal', 'review',
+  'reward', 'rhythm', 'river', 'robust', 'rough', 'royal', 'rubber', 'ruin', 'sample', 'satisfy', 'scale',
+  'scene', 'scheme', 'scholar', 'science', 'screen', 'search', 'season', 'secret', 'section', 'secure',
+  'select', 'senior', 'sense', 'series', 'serious', 'service', 'settle', 'shadow', 'shelter', 'shift',
+  'signal', 'silence', 'silver', 'simple', 'single', 'sister', 'situation', 'sketch', 'skill', 'slight',
+  'smooth', 'social', 'society', 'soldier', 'solid', 'solution', 'source', 'space', 'speak', 'special',
+  'speech', 'spirit', 'splendid', 'sponsor', 'spread', 'spring', 'square', 'stable', 'stage', 'standard',
+  'station', 'status', 'steady', 'stomach', 'storm', 'strange', 'stream', 'street', 'strength', 'stress',
+  'strict', 'strong', 'structure', 'student', 'study', 'subject', 'submit', 'succeed', 'sudden', 'suffer',
+  'suggest', 'summer', 'supply', 'support', 'surface', 'surprise', 'survey', 'survive', 'suspect', 'symbol',
+  'system', 'talent', 'target', 'teacher', 'temple', 'tender', 'tension', 'theory', 'thought', 'threat',
+  'ticket', 'timber', 'tissue', 'title', 'tomorrow', 'tongue', 'topic', 'total', 'touch', 'tourist',
+  'toward', 'tower', 'track', 'trade', 'tradition', 'traffic', 'travel', 'treasure', 'treat', 'trend',
+  'trial', 'triumph', 'trouble', 'truth', 'tunnel', 'typical', 'uncle', 'under', 'unique', 'unite',
+  'universe', 'unless', 'update', 'upset', 'urban', 'useful', 'usual', 'valley', 'valuable', 'value',
+  'variety', 'vehicle', 'venture', 'version', 'victim', 'village', 'virtue', 'vision', 'visit', 'vital',
+  'voice', 'volume', 'wander', 'warm', 'wealth', 'weather', 'wedding', 'weight', 'welcome', 'western',
+  'whisper', 'whole', 'wisdom', 'witness', 'wonder', 'wooden', 'worry', 'worth', 'writer', 'yellow', 'young',
+  'youth', 'zone',
+];
@@ -0,0 +1,97 @@
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+export type ColorScheme = 'light' | 'dark';
+
+export interface Palette {
+  background: string;
+  card: string;
+  cardShadow: string;
+  text: string;
+  secondaryText: string;
+  mutedText: string;
+  border: string;
+  input: string;
+  inputBorder: string;
+  placeholder: string;
+  chip: string;
+  chipText: string;
+  accent: string;
+  /** Text and icons drawn on an accent background. */
+  onAccent: string;
+  /** Tinted surface behind accent-colored icons, such as the audio buttons. */
+  accentSurface: string;
+  separator: string;
+  /** Tinted surface for current items, such as recent searches and accent labels. */
+  highlight: string;
+  highlightText: string;
+  error: string;
+  errorBackground: string;
+  errorBorder: string;
+  success: string;
+  successBackground: string;
+  warning: string;
+  disabled: string;
+}
+
+export const PALETTES: Record<ColorScheme, Palette> = {
+  light: {
+    background: '#f0f9ff',
+    card: '#ffffff',
+    cardShadow: '#000',
+    text: '#1e293b',
+    secondaryText: '#64748b',
+    mutedText: '#94a3b8',
+    border: '#e2e8f0',
+    input: '#f8fafc',
+    inputBorder: '#e2e8f0',
+    placeholder: '#6b7280',
+    chip: '#e0f2fe',
+    chipText: '#0369a1',
+    accent: '#3b82f6',
+    onAccent: '#ffffff',
+    accentSurface: '#e0f2fe',
+    separator: '#e2e8f0',
+    highlight: '#e0f2fe',
+    highlightText: '#0369a1',
+    error: '#dc2626',
+    errorBackground: '#fee2e2',
+    errorBorder: '#fca5a5',
+    success: '#10b981',
+    successBackground: '#d1fae5',
+    warning: '#f59e0b',
+    disabled: '#cbd5e1',
+  },
+  dark: {
+    background: '#0f172a',
+    card: '#1e293b',
+    cardShadow: '#64748b',
+    text: '#f8fafc',
+    secondaryText: '#94a3b8',
+    mutedText: '#64748b',
+    border: '#334155',
+    input: '#334155',
+    inputBorder: '#475569',
+    placeholder: '#9ca3af',
+    chip: '#334155',
+    chipText: '#f8fafc',
+    accent: '#3b82f6',
+    onAccent: '#ffffff',
+    accentSurface: '#172554',
+    separator: '#334155',
+    highlight: '#1e40af',
+    highlightText: '#bfdbfe',
+    error: '#fca5a5',
+    errorBackground: '#7f1d1d',
+    errorBorder: '#ef4444',
+    success: '#34d399',
+    successBackground: '#064e3b',
+    warning: '#f59e0b',
+    disabled: '#475569',
+  },
+};
+
+export const FONT_SCALE_MIN = 0.85;
+export const FONT_SCALE_MAX = 1.5;
+
+export const resolveColorScheme = (preference: ThemePreference, system: string | null | undefined): ColorScheme =>
+  preference === 'system' ? (system === 'dark' ? 'dark' : 'light') : preference;
@@ -0,0 +1,87 @@
+import { DAY_MS } from '@/lib/dates';
+import { Favorite } from '@/lib/favorites';
+import { CURATED_WORDS } from '../curatedWords';
+import { pickWordOfTheDay, recentWordsOfTheDay } from '../picker';
+
+const favorite = (word: string, language = 'en'): Favorite => ({
+  word,
+  language,
+  savedAt: 0,
+  entries: [
+    { word, phonetics: [], meanings: [{ partOfSpeech: 'noun', definitions: [{ definition: `The ${word}.` }] }] },
+  ],
+});
+
+const saved = [favorite('anchor'), favorite('harbour'), favorite('compass'), favorite('gezeiten', 'de')];
+
+// The calendar date a device in the given timezone shows at that instant.
+const dateIn = (timeZone: string, instant: number) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+
+describe('pickWordOfTheDay', () => {
+  it('gives devices in different timezones the word for their own date', () => {
+    const instant = Date.UTC(2026, 2, 10, 6);
+    const losAngeles = dateIn('America/Los_Angeles', instant);
+    const kiritimati = dateIn('Pacific/Kiritimati', instant);
+
+    expect([losAngeles, kiritimati]).toEqual(['2026-03-09', '2026-03-10']);
+    expect(pickWordOfTheDay(losAngeles, 'curated').word).not.toBe(pickWordOfTheDay(kiritimati, 'curated').word);
+    // London reaches the same date hours later and still gets the same word.
+    const london = dateIn('Europe/London', instant + DAY_MS / 2);
+    expect(pickWordOfTheDay(london, 'curated')).toEqual(pickWordOfTheDay(kiritimati, 'curated'));
+  });
+
+  it('gives the same word for the same date', () => {
+    expect(pickWordOfTheDay('2026-03-10', 'curated')).toEqual(pickWordOfTheDay('2026-03-10', 'curated'));
+    expect(pickWordOfTheDay('2026-03-10', 'saved', saved)).toEqual(
+      pickWordOfTheDay('2026-03-10', 'saved', [...saved].reverse()),
+    );
+  });
+
+  it('goes through the whole curated list before repeating a word', () => {
+    const start = Date.UTC(2026, 0, 1);
+    const words = CURATED_WORDS.map(
+      (_, offset) => pickWordOfTheDay(new Date(start + offset * DAY_MS).toISOString().slice(0, 10), 'curated').word,
+    );
+
+    expect(new Set(words).size).toBe(CURATED_WORDS.length);
+  });
+
+  it('picks from the saved words with their language and first definition', () => {
+    const daily = pickWordOfTheDay('2026-03-10', 'saved', saved);
+    const source = saved.find((item) => item.word === daily.word)!;
+
+    expect(daily).toEqual({
+      day: '2026-03-10',
+      word: source.word,
+      language: source.language,
+      partOfSpeech: 'noun',
+      definition: `The ${source.word}.`,
+    });
+  });
+
+  it('falls back to the curated list when nothing is saved', () => {
+    expect(pickWordOfTheDay('2026-03-10', 'saved', [])).toEqual(pickWordOfTheDay('2026-03-10', 'curated'));
+  });
+});
+
+describe('recentWordsOfTheDay', () => {
+  it('uses the local date, so the word changes at local midnight', () => {
+    const before = new Date(2026, 2, 10, 23, 59).getTime();
+    const after = new Date(2026, 2, 11, 0, 1).getTime();
+
+    const [yesterday] = recentWordsOfTheDay(1, 'curated', [], before);
+    const [today, previous] = recentWordsOfTheDay(2, 'curated', [], after);
+
+    expect(yesterday.day).toBe('2026-03-10');
+    expect(today.day).toBe('2026-03-11');
+    expect(previous).toEqual(yesterday);
+    expect(today.word).not.toBe(yesterday.word);
+  });
+
+  it('steps back one calendar day at a time across a month boundary', () => {
+    const recent = recentWordsOfTheDay(3, 'curated', [], new Date(2026, 2, 1, 0, 30).getTime());
+
+    expect(recent.map((daily) => daily.day)).toEqual(['2026-03-01', '2026-02-28', '2026-02-27']);
+  });
+});
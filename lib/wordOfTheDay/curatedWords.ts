@@ -0,0 +1,74 @@
+export interface CuratedWord {
+  word: string;
+  partOfSpeech: string;
+  definition: string;
+}
+
+/**
+ * Bundled Word of the Day list. Order matters: the daily pick indexes into it,
+ * so append new words at the end rather than inserting or sorting.
+ */
+export const CURATED_WORDS: CuratedWord[] = [
+  { word: 'serendipity', partOfSpeech: 'noun', definition: 'The occurrence of fortunate events by chance.' },
+  { word: 'ephemeral', partOfSpeech: 'adjective', definition: 'Lasting for a very short time.' },
+  { word: 'ubiquitous', partOfSpeech: 'adjective', definition: 'Present, appearing or found everywhere.' },
+  { word: 'eloquent', partOfSpeech: 'adjective', definition: 'Fluent or persuasive in speaking or writing.' },
+  { word: 'resilient', partOfSpeech: 'adjective', definition: 'Able to recover quickly from difficult conditions.' },
+  { word: 'meticulous', partOfSpeech: 'adjective', definition: 'Showing great attention to detail; very careful and precise.' },
+  { word: 'candor', partOfSpeech: 'noun', definition: 'The quality of being open and honest in expression.' },
+  { word: 'benevolent', partOfSpeech: 'adjective', definition: 'Well meaning and kindly.' },
+  { word: 'pragmatic', partOfSpeech: 'adjective', definition: 'Dealing with things sensibly and realistically.' },
+  { word: 'quintessential', partOfSpeech: 'adjective', definition: 'Representing the most perfect or typical example of a quality or class.' },
+  { word: 'ambiguous', partOfSpeech: 'adjective', definition: 'Open to more than one interpretation.' },
+  { word: 'tenacious', partOfSpeech: 'adjective', definition: 'Tending to keep a firm hold of something; persistent.' },
+  { word: 'gregarious', partOfSpeech: 'adjective', definition: 'Fond of company; sociable.' },
+  { word: 'lucid', partOfSpeech: 'adjective', definition: 'Expressed clearly; easy to understand.' },
+  { word: 'nostalgia', partOfSpeech: 'noun', definition: 'A sentimental longing for a period in the past.' },
+  { word: 'paradigm', partOfSpeech: 'noun', definition: 'A typical example or pattern of something; a model.' },
+  { word: 'alleviate', partOfSpeech: 'verb', definition: 'To make suffering, deficiency or a problem less severe.' },
+  { word: 'scrutinize', partOfSpeech: 'verb', definition: 'To examine or inspect closely and thoroughly.' },
+  { word: 'ponder', partOfSpeech: 'verb', definition: 'To think about something carefully before reaching a conclusion.' },
+  { word: 'cultivate', partOfSpeech: 'verb', definition: 'To try to acquire or develop a quality or skill.' },
+  { word: 'diligent', partOfSpeech: 'adjective', definition: 'Having or showing care and conscientiousness in one\'s work.' },
+  { word: 'empathy', partOfSpeech: 'noun', definition: 'The ability to understand and share the feelings of another.' },
+  { word: 'frugal', partOfSpeech: 'adjective', definition: 'Sparing or economical with money or food.' },
+  { word: 'harbinger', partOfSpeech: 'noun', definition: 'A person or thing that announces or signals the approach of another.' },
+  { word: 'idiosyncrasy', partOfSpeech: 'noun', definition: 'A mode of behaviour or way of thought peculiar to an individual.' },
+  { word: 'juxtapose', partOfSpeech: 'verb', definition: 'To place close together for contrasting effect.' },
+  { word: 'kinetic', partOfSpeech: 'adjective', definition: 'Relating to or resulting from motion.' },
+  { word: 'laconic', partOfSpeech: 'adjective', definition: 'Using very few words.' },
+  { word: 'mellifluous', partOfSpeech: 'adjective', definition: 'Sweet or musical; pleasant to hear.' },
+  { word: 'nuance', partOfSpeech: 'noun', definition: 'A subtle difference in meaning, expression or sound.' },
+  { word: 'obsolete', partOfSpeech: 'adjective', definition: 'No longer produced or used; out of date.' },
+  { word: 'perennial', partOfSpeech: 'adjective', definition: 'Lasting or existing for a long or apparently infinite time.' },
+  { word: 'quandary', partOfSpeech: 'noun', definition: 'A state of perplexity or uncertainty over what to do.' },
+  { word: 'reverie', partOfSpeech: 'noun', definition: 'A state of being pleasantly lost in one\'s thoughts; a daydream.' },
+  { word: 'sagacious', partOfSpeech: 'adjective', definition: 'Having or showing keen mental discernment and good judgement.' },
+  { word: 'tranquil', partOfSpeech: 'adjective', definition: 'Free from disturbance; calm.' },
+  { word: 'unravel', partOfSpeech: 'verb', definition: 'To investigate and solve or explain something complicated.' },
+  { word: 'venerate', partOfSpeech: 'verb', definition: 'To regard with great respect.' },
+  { word: 'wistful', partOfSpeech: 'adjective', definition: 'Having or showing a feeling of vague or regretful longing.' },
+  { word: 'zealous', partOfSpeech: 'adjective', definition: 'Having or showing great energy or enthusiasm for a cause.' },
+  { word: 'aesthetic', partOfSpeech: 'adjective', definition: 'Concerned with beauty or the appreciation of beauty.' },
+  { word: 'brevity', partOfSpeech: 'noun', definition: 'Concise and exact use of words in writing or speech.' },
+  { word: 'catalyst', partOfSpeech: 'noun', definition: 'A person or thing that precipitates an event or change.' },
+  { word: 'dexterity', partOfSpeech: 'noun', definition: 'Skill in performing tasks, especially with the hands.' },
+  { word: 'epiphany', partOfSpeech: 'noun', definition: 'A moment of sudden and great revelation or realization.' },
+  { word: 'fortitude', partOfSpeech: 'noun', definition: 'Courage in pain or adversity.' },
+  { word: 'galvanize', partOfSpeech: 'verb', definition: 'To shock or excite someone into taking action.' },
+  { word: 'hubris', partOfSpeech: 'noun', definition: 'Excessive pride or self-confidence.' },
+  { word: 'innate', partOfSpeech: 'adjective', definition: 'Inborn; natural.' },
+  { word: 'jubilant', partOfSpeech: 'adjective', definition: 'Feeling or expressing great happiness and triumph.' },
+  { word: 'kindle', partOfSpeech: 'verb', definition: 'To arouse or inspire an emotion or feeling.' },
+  { word: 'labyrinth', partOfSpeech: 'noun', definition: 'A complicated irregular network of passages or paths.' },
+  { word: 'myriad', partOfSpeech: 'noun', definition: 'A countless or extremely great number.' },
+  { word: 'nebulous', partOfSpeech: 'adjective', definition: 'In the form of a cloud or haze; vague or ill-defined.' },
+  { word: 'oblivious', partOfSpeech: 'adjective', definition: 'Not aware of or concerned about what is happening around one.' },
+  { word: 'plethora', partOfSpeech: 'noun', definition: 'A large or excessive amount of something.' },
+  { word: 'quell', partOfSpeech: 'verb', definition: 'To put an end to a rebellion or other disorder, typically by force.' },
+  { word: 'rhetoric', partOfSpeech: 'noun', definition: 'The art of effective or persuasive speaking or writing.' },
+  { word: 'solace', partOfSpeech: 'noun', definition: 'Comfort or consolation in a time of distress or sadness.' },
+  { word: 'tangible', partOfSpeech: 'adjective', definition: 'Perceptible by touch; clear and definite.' },
+  { word: 'vicarious', partOfSpeech: 'adjective', definition: 'Experienced in the imagination through the feelings or actions of another person.' },
+  { word: 'whimsical', partOfSpeech: 'adjective', definition: 'Playfully quaint or fanciful.' },
+];
@@ -0,0 +1,3 @@
+export * from './curatedWords';
+export * from './picker';
+export * from './reminders';
@@ -0,0 +1,61 @@
+import { calendarDay, DAY_MS } from '@/lib/dates';
+import { Favorite } from '@/lib/favorites';
+import { DEFAULT_LANGUAGE } from '@/lib/language';
+import { CURATED_WORDS } from './curatedWords';
+
+// Prime stride: consecutive days walk the whole list before any word repeats.
+const DAY_STRIDE = 7919;
+
+export type WordOfTheDaySource = 'curated' | 'saved';
+
+export interface DailyWord {
+  /** Local calendar date, `YYYY-MM-DD`. */
+  day: string;
+  word: string;
+  language: string;
+  partOfSpeech?: string;
+  definition?: string;
+}
+
+// Days since the epoch for the calendar date itself, so every timezone agrees on the number for a given date.
+const dayNumber = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return Math.floor(Date.UTC(year, month - 1, date) / DAY_MS);
+};
+
+const indexForDay = (day: string, length: number) => (dayNumber(day) * DAY_STRIDE) % length;
+
+/**
+ * The word for a calendar day. Curated picks depend only on the date, so
+ * every device agrees; saved-word picks are stable for a given set of favorites.
+ * Falls back to the curated list when nothing is saved.
+ */
+export const pickWordOfTheDay = (day: string, source: WordOfTheDaySource, favorites: Favorite[] = []): DailyWord => {
+  if (source === 'saved' && favorites.length > 0) {
+    const sorted = [...favorites].sort((a, b) => `${a.language}:${a.word}`.localeCompare(`${b.language}:${b.word}`));
+    const favorite = sorted[indexForDay(day, sorted.length)];
+    const meaning = favorite.entries[0]?.meanings[0];
+    return {
+      day,
+      word: favorite.word,
+      language: favorite.language,
+      partOfSpeech: meaning?.partOfSpeech,
+      definition: meaning?.definitions[0]?.definition,
+    };
+  }
+  const curated = CURATED_WORDS[indexForDay(day, CURATED_WORDS.length)];
+  return { day, language: DEFAULT_LANGUAGE, ...curated };
+};
+
+/** Today's word followed by the previous `count - 1` days, newest first. */
+export const recentWordsOfTheDay = (
+  count: number,
+  source: WordOfTheDaySource,
+  favorites: Favorite[] = [],
+  now = Date.now(),
+): DailyWord[] =>
+  Array.from({ length: count }, (_, index) => {
+    const date = new Date(now);
+    date.setDate(date.getDate() - index);
+    return pickWordOfTheDay(calendarDay(date.getTime()), source, favorites);
+  });
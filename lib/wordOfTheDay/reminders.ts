@@ -0,0 +1,77 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { calendarDay } from '@/lib/dates';
+import { loadFavorites } from '@/lib/favorites';
+import { loadPreferences } from '@/lib/preferences';
+import { pickWordOfTheDay } from './picker';
+
+const CHANNEL_ID = 'word-of-the-day';
+const IDENTIFIER_PREFIX = 'word-of-the-day:';
+// Local notifications carry fixed text, so the next week is scheduled ahead and refreshed on launch.
+const DAYS_AHEAD = 7;
+
+export interface WordOfTheDayNotificationData {
+  word: string;
+  language: string;
+}
+
+const cancelScheduled = async () => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((request) => request.identifier.startsWith(IDENTIFIER_PREFIX))
+      .map((request) => Notifications.cancelScheduledNotificationAsync(request.identifier)),
+  );
+};
+
+const ensurePermission = async () => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+};
+
+/**
+ * Replaces the pending Word of the Day reminders to match the current
+ * preferences. Resolves to `false` when reminders are on but notifications
+ * are not permitted.
+ */
+export const syncWordOfTheDayReminders = async (now = Date.now()) => {
+  if (Platform.OS === 'web') return true;
+  const [preferences, favorites] = await Promise.all([loadPreferences(), loadFavorites()]);
+  await cancelScheduled();
+  if (!preferences.wordOfTheDayReminder) return true;
+  if (!(await ensurePermission())) return false;
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Word of the Day',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  for (let offset = 0; offset < DAYS_AHEAD; offset++) {
+    const date = new Date(now);
+    date.setDate(date.getDate() + offset);
+    date.setHours(preferences.wordOfTheDayHour, preferences.wordOfTheDayMinute, 0, 0);
+    if (date.getTime() <= now) continue;
+    const daily = pickWordOfTheDay(calendarDay(date.getTime()), preferences.wordOfTheDaySource, favorites);
+    const data: WordOfTheDayNotificationData = { word: daily.word, language: daily.language };
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${IDENTIFIER_PREFIX}${daily.day}`,
+      content: {
+        title: `Word of the Day: ${daily.word}`,
+        body: daily.definition ?? 'Tap to look it up.',
+        data: { ...data },
+      },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date, channelId: CHANNEL_ID },
+    });
+  }
+  return true;
+};
+
+export const isWordOfTheDayNotification = (data: unknown): data is WordOfTheDayNotificationData =>
+  typeof data === 'object' &&
+  data !== null &&
+  typeof (data as WordOfTheDayNotificationData).word === 'string' &&
+  typeof (data as WordOfTheDayNotificationData).language === 'string';
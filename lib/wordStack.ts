@@ -0,0 +1,27 @@
+export interface WordStack {
+  words: string[];
+  index: number;
+}
+
+export const EMPTY_WORD_STACK: WordStack = { words: [], index: -1 };
+
+const MAX_STACK_DEPTH = 50;
+
+export const currentWord = (stack: WordStack): string | undefined => stack.words[stack.index];
+
+export const canGoBack = (stack: WordStack) => stack.index > 0;
+
+export const canGoForward = (stack: WordStack) => stack.index < stack.words.length - 1;
+
+/** Visits a word, discarding any forward history like a browser does. Revisiting the current word is a no-op. */
+export const pushWord = (stack: WordStack, word: string): WordStack => {
+  if (currentWord(stack)?.toLowerCase() === word.toLowerCase()) return stack;
+  const words = [...stack.words.slice(0, stack.index + 1), word].slice(-MAX_STACK_DEPTH);
+  return { words, index: words.length - 1 };
+};
+
+export const goBack = (stack: WordStack): WordStack =>
+  canGoBack(stack) ? { ...stack, index: stack.index - 1 } : stack;
+
+export const goForward = (stack: WordStack): WordStack =>
+  canGoForward(stack) ? { ...stack, index: stack.index + 1 } : stack;